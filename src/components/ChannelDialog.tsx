@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/hooks/use-toast';
+import { createChannel, joinChannel, lookupChannel } from '@/lib/conversations';
+import { Megaphone } from 'lucide-react';
+
+interface ChannelDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Called with the channel that was joined or created. */
+  onDone: (conversationId: string) => void;
+}
+
+interface FoundChannel {
+  title: string;
+  subscriber_count: number;
+}
+
+const MAX_TITLE_LENGTH = 100;
+
+/** Join a channel by its code, or create a new one. */
+export function ChannelDialog({ open, onClose, onDone }: ChannelDialogProps) {
+  const { toast } = useToast();
+  const [code, setCode] = useState('');
+  const [found, setFound] = useState<FoundChannel | null>(null);
+  const [title, setTitle] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setCode('');
+    setFound(null);
+    setTitle('');
+  }, [open]);
+
+  const handleLookup = async () => {
+    const trimmedCode = code.trim();
+    if (!trimmedCode) return;
+
+    // Validate code format (8 characters, like a UID)
+    if (trimmedCode.length !== 8) {
+      toast({
+        title: 'Invalid code',
+        description: 'Channel codes are exactly 8 characters.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setLoading(true);
+    const channel = await lookupChannel(trimmedCode);
+    setLoading(false);
+
+    if (!channel) {
+      toast({
+        title: 'Channel not found',
+        description: 'No channel exists with that code.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setFound(channel);
+  };
+
+  const handleJoin = async () => {
+    setLoading(true);
+    const conversationId = await joinChannel(code.trim());
+    setLoading(false);
+
+    if (!conversationId) {
+      toast({
+        title: 'Error',
+        description: 'Failed to join channel.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Subscribed',
+      description: `You're now subscribed to ${found?.title ?? 'the channel'}.`,
+    });
+    onDone(conversationId);
+    onClose();
+  };
+
+  const handleCreate = async () => {
+    const trimmedTitle = title.trim();
+    if (!trimmedTitle) return;
+
+    setLoading(true);
+    const conversationId = await createChannel(trimmedTitle);
+    setLoading(false);
+
+    if (!conversationId) {
+      toast({
+        title: 'Error',
+        description: 'Failed to create channel.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Channel created',
+      description: 'Share its code from the channel header so others can subscribe.',
+    });
+    onDone(conversationId);
+    onClose();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Megaphone className="w-5 h-5" />
+            Channels
+          </DialogTitle>
+          <DialogDescription>Only owners and admins post in a channel; subscribers read.</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="join">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="join">Join</TabsTrigger>
+            <TabsTrigger value="create">Create</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="join" className="space-y-4 pt-2">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Enter channel code</label>
+              <Input
+                placeholder="e.g., a1b2c3d4"
+                value={code}
+                onChange={(e) => {
+                  setCode(e.target.value);
+                  setFound(null);
+                }}
+              />
+              <p className="text-xs text-muted-foreground">
+                Ask a channel admin for its code.
+              </p>
+            </div>
+            {found ? (
+              <div className="rounded-lg border border-border p-3 space-y-3">
+                <div>
+                  <p className="font-medium truncate">{found.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {found.subscriber_count === 1 ? '1 subscriber' : `${found.subscriber_count} subscribers`}
+                  </p>
+                </div>
+                <Button onClick={handleJoin} disabled={loading} className="w-full pagion-gradient">
+                  {loading ? 'Joining...' : 'Subscribe'}
+                </Button>
+              </div>
+            ) : (
+              <Button
+                onClick={handleLookup}
+                disabled={loading || !code.trim()}
+                className="w-full pagion-gradient"
+              >
+                {loading ? 'Looking up...' : 'Find Channel'}
+              </Button>
+            )}
+          </TabsContent>
+
+          <TabsContent value="create" className="space-y-4 pt-2">
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Channel name</label>
+              <Input
+                placeholder="e.g., Team announcements"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                maxLength={MAX_TITLE_LENGTH}
+              />
+            </div>
+            <Button
+              onClick={handleCreate}
+              disabled={loading || !title.trim()}
+              className="w-full pagion-gradient"
+            >
+              {loading ? 'Creating...' : 'Create Channel'}
+            </Button>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { UserAvatar } from './UserAvatar';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { setChannelAdmin } from '@/lib/conversations';
+import { ShieldCheck } from 'lucide-react';
+import type { Conversation, ConversationRole } from '@/types/chat';
+
+interface ChannelMembersDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Only the owner sees every subscriber; this dialog is meant for them. */
+  conversation: Conversation;
+  currentUserId: string | undefined;
+}
+
+const ROLE_LABELS: Record<ConversationRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+  subscriber: 'Subscriber',
+};
+
+const ROLE_ORDER: ConversationRole[] = ['owner', 'admin', 'member', 'subscriber'];
+
+/** The channel's owner, admins and subscribers, with promote and demote controls. */
+export function ChannelMembersDialog({ open, onClose, conversation, currentUserId }: ChannelMembersDialogProps) {
+  const { toast } = useToast();
+  // Roles changed here show right away; the conversation catches up through realtime
+  const [roleChanges, setRoleChanges] = useState<Record<string, ConversationRole>>({});
+  const [savingUserId, setSavingUserId] = useState<string | null>(null);
+
+  const members = conversation.members
+    .map((m) => ({ ...m, role: roleChanges[m.user_id] ?? m.role }))
+    .sort((a, b) => ROLE_ORDER.indexOf(a.role) - ROLE_ORDER.indexOf(b.role) || a.profile.name.localeCompare(b.profile.name));
+
+  const handleSetAdmin = async (userId: string, admin: boolean) => {
+    setSavingUserId(userId);
+    const saved = await setChannelAdmin(conversation.id, userId, admin);
+    setSavingUserId(null);
+
+    if (!saved) {
+      toast({
+        title: 'Error',
+        description: admin ? 'Failed to make admin.' : 'Failed to remove admin.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setRoleChanges((prev) => ({ ...prev, [userId]: admin ? 'admin' : 'subscriber' }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5" />
+            Channel admins
+          </DialogTitle>
+          <DialogDescription>Admins can post in the channel alongside you.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto scrollbar-thin -mx-2">
+          {members.map((member) => (
+            <div key={member.user_id} className="flex items-center gap-3 px-2 py-2">
+              <UserAvatar name={member.profile.name} color={member.profile.avatar_color} size="sm" />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium truncate">
+                  {member.user_id === currentUserId ? 'You' : member.profile.name}
+                </p>
+                <p className="text-xs text-muted-foreground">{ROLE_LABELS[member.role]}</p>
+              </div>
+              {(member.role === 'admin' || member.role === 'subscriber') && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={savingUserId === member.user_id}
+                  onClick={() => handleSetAdmin(member.user_id, member.role === 'subscriber')}
+                >
+                  {member.role === 'subscriber' ? 'Make admin' : 'Remove admin'}
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,126 +1,172 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
-import { UserAvatar } from './UserAvatar';
+import { ConversationAvatar } from './ConversationAvatar';
+import { MessageBubble } from './MessageBubble';
+import { MessageList, type MessageListHandle } from './MessageList';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { ComposerTextarea } from './ComposerTextarea';
+import { MessageContent } from './MessageContent';
+import { EditHistoryDialog } from './EditHistoryDialog';
+import { ChannelMembersDialog } from './ChannelMembersDialog';
+import { ForwardDialog } from './ForwardDialog';
+import { PinnedBanner } from './PinnedBanner';
+import { SystemNote } from './SystemNote';
+import { SchedulePicker } from './SchedulePicker';
+import { ScheduledMessagesDialog } from './ScheduledMessagesDialog';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { useToast } from '@/hooks/use-toast';
-import { Send, MoreVertical, Reply, Pencil, Trash2, X, Check } from 'lucide-react';
-
-interface Message {
-  id: string;
-  sender_id: string;
-  receiver_id: string;
-  content: string;
-  reply_to_id: string | null;
-  is_edited: boolean;
-  created_at: string;
-  reply_to?: {
-    content: string;
-    sender_name: string;
-  };
-}
-
-interface Contact {
-  id: string;
-  contact_user_id: string;
-  profile: {
-    name: string;
-    uid: string;
-    avatar_color: string;
-  };
-}
+import { useConversationMessages } from '@/hooks/use-conversation-messages';
+import { useOnlineStatus } from '@/hooks/use-online-status';
+import { useConversationTyping } from '@/hooks/use-typing';
+import { useContactPresence } from '@/hooks/use-presence';
+import { useScheduledMessages } from '@/hooks/use-scheduled-messages';
+import { clearDraft, getDraft, saveDraft } from '@/lib/drafts';
+import { defaultSendAt, formatSendAt, hasPassed } from '@/lib/schedule';
+import { DISAPPEARING_TIMERS, timerLabel } from '@/lib/disappearing';
+import { canPost, conversationName } from '@/lib/conversations';
+import { Send, Reply, X, WifiOff, Forward, CalendarClock, Timer, Copy, Megaphone, ShieldCheck } from 'lucide-react';
+import type { Conversation, Message } from '@/types/chat';
 
 interface ChatAreaProps {
-  contact: Contact | null;
+  conversation: Conversation | null;
+  /** Message to scroll to once the conversation has loaded, e.g. when opened from the starred list. */
+  jumpToMessageId?: string | null;
+  onJumpHandled?: () => void;
 }
 
-export function ChatArea({ contact }: ChatAreaProps) {
-  const { user, profile } = useAuth();
+export function ChatArea({ conversation, jumpToMessageId, onJumpHandled }: ChatAreaProps) {
+  const { user } = useAuth();
+  // Null in groups, which have no typing indicator or presence
+  const contact = conversation?.contact ?? null;
+  // Channel subscribers read only
+  const mayPost = !!conversation && canPost(conversation, user?.id);
+  const isChannelOwner = conversation?.type === 'channel' &&
+    conversation.members.some((m) => m.user_id === user?.id && m.role === 'owner');
   const { toast } = useToast();
-  const [messages, setMessages] = useState<Message[]>([]);
+  const {
+    messages,
+    pins,
+    loadedConversationId,
+    firstUnreadId,
+    markAsRead,
+    markConversationRead,
+    hasOlderMessages,
+    loadingOlder,
+    loadOlderMessages,
+    loadUntilMessage,
+    sendMessage,
+    retryMessage,
+    discardMessage,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    toggleStar,
+    disappearingTimer,
+    setDisappearingTimer,
+    pinMessage,
+    unpinMessage,
+  } = useConversationMessages(conversation);
+  const isOnline = useOnlineStatus();
+  const { isContactTyping, notifyTyping, stopTyping } = useConversationTyping(contact?.contact_user_id ?? null);
+  const presence = useContactPresence(contact?.contact_user_id ?? null);
+  const { scheduled, scheduleMessage, updateScheduledMessage, cancelScheduledMessage } =
+    useScheduledMessages(conversation);
   const [newMessage, setNewMessage] = useState('');
   const [replyTo, setReplyTo] = useState<Message | null>(null);
   const [editingMessage, setEditingMessage] = useState<Message | null>(null);
   const [editContent, setEditContent] = useState('');
+  const [historyMessage, setHistoryMessage] = useState<Message | null>(null);
+  // Ids of messages picked in multi-select mode; null when not selecting
+  const [selectedIds, setSelectedIds] = useState<string[] | null>(null);
+  const [forwardMessages, setForwardMessages] = useState<Message[] | null>(null);
+  const [sendLaterOpen, setSendLaterOpen] = useState(false);
+  const [channelMembersOpen, setChannelMembersOpen] = useState(false);
+  const [sendAt, setSendAt] = useState(defaultSendAt);
+  const [scheduledOpen, setScheduledOpen] = useState(false);
   const [lastMessageTime, setLastMessageTime] = useState(0);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  // Message to scroll to once a jump has loaded enough history to render it
+  const [pendingJumpId, setPendingJumpId] = useState<string | null>(null);
+  const messageListRef = useRef<MessageListHandle>(null);
+  const composerRef = useRef<HTMLTextAreaElement>(null);
+  // Conversation the composer state currently belongs to, so drafts are never saved under the wrong one
+  const draftKeyRef = useRef<string | null>(null);
   
   const MESSAGE_COOLDOWN = 500; // 500ms between messages
   const MAX_MESSAGE_LENGTH = 10000;
+  const HIGHLIGHT_DURATION = 2000;
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  };
+  // Direct conversations keep their drafts under the contact, as they did before groups existed
+  const draftKey = conversation ? conversation.contact?.contact_user_id ?? conversation.id : null;
+
+  // Restore the composer for the conversation being opened
+  useEffect(() => {
+    const draft = user && draftKey ? getDraft(user.id, draftKey) : null;
+    draftKeyRef.current = draftKey;
+    setNewMessage(draft?.text ?? '');
+    setReplyTo(draft?.reply_to ?? null);
+    setEditingMessage(null);
+    setSelectedIds(null);
+    setSendLaterOpen(false);
+    setScheduledOpen(false);
+  }, [user, draftKey]);
+
+  // Text meant to disappear isn't left behind on the device
+  useEffect(() => {
+    if (!user || !draftKeyRef.current) return;
+    if (disappearingTimer) {
+      clearDraft(user.id, draftKeyRef.current);
+    } else {
+      saveDraft(user.id, draftKeyRef.current, newMessage, replyTo);
+    }
+  }, [user, newMessage, replyTo, disappearingTimer]);
 
-  const fetchMessages = async () => {
-    if (!user || !contact) return;
-
-    const { data, error } = await supabase
-      .from('messages')
-      .select('*')
-      .or(`and(sender_id.eq.${user.id},receiver_id.eq.${contact.contact_user_id}),and(sender_id.eq.${contact.contact_user_id},receiver_id.eq.${user.id})`)
-      .order('created_at', { ascending: true });
-
-    if (!error && data) {
-      const messagesWithReplies = await Promise.all(
-        data.map(async (msg) => {
-          if (msg.reply_to_id) {
-            const { data: replyData } = await supabase
-              .from('messages')
-              .select('content, sender_id')
-              .eq('id', msg.reply_to_id)
-              .maybeSingle();
-
-            if (replyData) {
-              const senderName = replyData.sender_id === user.id 
-                ? profile?.name || 'You' 
-                : contact.profile.name;
-              return { ...msg, reply_to: { content: replyData.content, sender_name: senderName } };
-            }
-          }
-          return msg;
-        })
-      );
-      setMessages(messagesWithReplies);
+  const handleJumpToMessage = async (messageId: string) => {
+    const found = await loadUntilMessage(messageId);
+    if (!found) {
+      toast({
+        title: 'Message unavailable',
+        description: 'The original message could not be found.',
+        variant: 'destructive',
+      });
+      return;
     }
+    setPendingJumpId(messageId);
   };
+  const handleJumpToMessageRef = useRef(handleJumpToMessage);
+  handleJumpToMessageRef.current = handleJumpToMessage;
 
+  // Jumps requested from outside wait for the conversation's first page
   useEffect(() => {
-    fetchMessages();
-  }, [user, contact]);
+    if (!jumpToMessageId || loadedConversationId !== conversation?.id) return;
+    onJumpHandled?.();
+    handleJumpToMessageRef.current(jumpToMessageId);
+  }, [jumpToMessageId, loadedConversationId, conversation?.id, onJumpHandled]);
 
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
+    if (!pendingJumpId || !messageListRef.current?.scrollToMessage(pendingJumpId)) return;
+    setHighlightedMessageId(pendingJumpId);
+    setPendingJumpId(null);
+  }, [pendingJumpId, messages]);
 
   useEffect(() => {
-    if (!user || !contact) return;
-
-    const channel = supabase
-      .channel('messages-channel')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'messages',
-        },
-        () => {
-          fetchMessages();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [user, contact]);
+    if (!highlightedMessageId) return;
+    const timeout = setTimeout(() => setHighlightedMessageId(null), HIGHLIGHT_DURATION);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
 
   const handleSendMessage = async () => {
     const trimmedMessage = newMessage.trim();
-    if (!user || !contact || !trimmedMessage) return;
+    if (!user || !conversation || !trimmedMessage) return;
 
     // Length validation
     if (trimmedMessage.length > MAX_MESSAGE_LENGTH) {
@@ -138,24 +184,95 @@ export function ChatArea({ contact }: ChatAreaProps) {
       return; // Silently ignore rapid messages
     }
 
-    const { error } = await supabase.from('messages').insert({
-      sender_id: user.id,
-      receiver_id: contact.contact_user_id,
-      content: trimmedMessage,
-      reply_to_id: replyTo?.id || null,
+    // The message shows up right away; offline sends are queued, failures stay on the bubble
+    setLastMessageTime(now);
+    stopTyping();
+    setNewMessage('');
+    setReplyTo(null);
+    await sendMessage(trimmedMessage, replyTo);
+  };
+
+  const handleScheduleMessage = async () => {
+    const trimmedMessage = newMessage.trim();
+    if (!trimmedMessage) return;
+
+    if (trimmedMessage.length > MAX_MESSAGE_LENGTH) {
+      toast({
+        title: 'Message too long',
+        description: `Messages must be under ${MAX_MESSAGE_LENGTH.toLocaleString()} characters.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (hasPassed(sendAt)) {
+      toast({
+        title: 'Pick a later time',
+        description: 'Scheduled messages must be sent in the future.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (!(await scheduleMessage(trimmedMessage, sendAt, replyTo?.id ?? null))) {
+      toast({
+        title: 'Error',
+        description: 'Failed to schedule message.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    stopTyping();
+    setNewMessage('');
+    setReplyTo(null);
+    setSendLaterOpen(false);
+    toast({
+      title: 'Message scheduled',
+      description: `It will be sent ${formatSendAt(sendAt)}.`,
     });
+  };
+
+  const handleUpdateScheduled = async (id: string, content: string, newSendAt: Date) => {
+    if (content.length > MAX_MESSAGE_LENGTH) {
+      toast({
+        title: 'Message too long',
+        description: `Messages must be under ${MAX_MESSAGE_LENGTH.toLocaleString()} characters.`,
+        variant: 'destructive',
+      });
+      return false;
+    }
+
+    if (hasPassed(newSendAt)) {
+      toast({
+        title: 'Pick a later time',
+        description: 'Scheduled messages must be sent in the future.',
+        variant: 'destructive',
+      });
+      return false;
+    }
 
-    if (error) {
+    const updated = await updateScheduledMessage(id, content, newSendAt);
+    if (!updated) {
       toast({
         title: 'Error',
-        description: 'Failed to send message.',
+        description: 'Failed to update scheduled message. It may already have been sent.',
         variant: 'destructive',
       });
-    } else {
-      setLastMessageTime(now);
-      setNewMessage('');
-      setReplyTo(null);
     }
+    return updated;
+  };
+
+  const handleCancelScheduled = async (id: string) => {
+    const cancelled = await cancelScheduledMessage(id);
+    if (!cancelled) {
+      toast({
+        title: 'Error',
+        description: 'Failed to cancel scheduled message. It may already have been sent.',
+        variant: 'destructive',
+      });
+    }
+    return cancelled;
   };
 
   const handleEditMessage = async () => {
@@ -172,30 +289,22 @@ export function ChatArea({ contact }: ChatAreaProps) {
       return;
     }
 
-    const { error } = await supabase
-      .from('messages')
-      .update({ content: trimmedContent, is_edited: true })
-      .eq('id', editingMessage.id);
-
-    if (error) {
+    if (await editMessage(editingMessage.id, trimmedContent)) {
+      setEditingMessage(null);
+      setEditContent('');
+    } else {
       toast({
         title: 'Error',
         description: 'Failed to edit message.',
         variant: 'destructive',
       });
-    } else {
-      setEditingMessage(null);
-      setEditContent('');
     }
   };
 
-  const handleDeleteMessage = async (messageId: string) => {
-    const { error } = await supabase
-      .from('messages')
-      .delete()
-      .eq('id', messageId);
-
-    if (error) {
+  const handleDeleteMessage = async (messageId: string, scope: 'everyone' | 'me') => {
+    if (editingMessage?.id === messageId) setEditingMessage(null);
+    if (replyTo?.id === messageId) setReplyTo(null);
+    if (!(await deleteMessage(messageId, scope))) {
       toast({
         title: 'Error',
         description: 'Failed to delete message.',
@@ -204,11 +313,86 @@ export function ChatArea({ contact }: ChatAreaProps) {
     }
   };
 
-  const formatTime = (dateString: string) => {
-    return new Date(dateString).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const handleToggleReaction = async (messageId: string, emoji: string) => {
+    if (!(await toggleReaction(messageId, emoji))) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update reaction.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleTogglePin = async (messageId: string, pinned: boolean) => {
+    if (!(await (pinned ? unpinMessage(messageId) : pinMessage(messageId)))) {
+      toast({
+        title: 'Error',
+        description: pinned ? 'Failed to unpin message.' : 'Failed to pin message.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleToggleStar = async (messageId: string) => {
+    if (!(await toggleStar(messageId))) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update star.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleSetDisappearingTimer = async (seconds: number | null) => {
+    if (seconds === disappearingTimer) return;
+    if (!(await setDisappearingTimer(seconds))) {
+      toast({
+        title: 'Error',
+        description: 'Failed to change disappearing messages.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const memberProfile = (userId: string) =>
+    userId === contact?.contact_user_id
+      ? contact.profile
+      : conversation?.members.find((m) => m.user_id === userId)?.profile;
+
+  const resolveName = (userId: string) =>
+    userId === user?.id ? 'You' : memberProfile(userId)?.name ?? 'Unknown';
+
+  const handleCopyJoinCode = async () => {
+    if (!conversation?.join_code) return;
+    try {
+      await navigator.clipboard.writeText(conversation.join_code);
+    } catch {
+      toast({
+        title: 'Error',
+        description: 'Failed to copy channel code.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    toast({
+      title: 'Copied!',
+      description: 'Channel code copied to clipboard.',
+    });
   };
 
-  if (!contact) {
+  const handleToggleSelect = (message: Message) => {
+    setSelectedIds((prev) =>
+      prev?.includes(message.id) ? prev.filter((id) => id !== message.id) : [...(prev ?? []), message.id]
+    );
+  };
+
+  // Forward in timeline order, whatever order the messages were picked in
+  const handleForwardSelected = () => {
+    if (!selectedIds || selectedIds.length === 0) return;
+    setForwardMessages(messages.filter((m) => selectedIds.includes(m.id)));
+  };
+
+  if (!conversation) {
     return (
       <div className="flex-1 flex items-center justify-center bg-muted/30">
         <div className="text-center">
@@ -226,128 +410,163 @@ export function ChatArea({ contact }: ChatAreaProps) {
     <div className="flex-1 flex flex-col h-full">
       {/* Header */}
       <div className="p-4 border-b border-border glass-effect flex items-center gap-3">
-        <UserAvatar
-          name={contact.profile.name}
-          color={contact.profile.avatar_color}
-          size="md"
-        />
-        <div>
-          <h3 className="font-semibold">{contact.profile.name}</h3>
-          <p className="text-xs text-muted-foreground">UID: {contact.profile.uid}</p>
+        <ConversationAvatar conversation={conversation} size="md" online={presence.isOnline} />
+        <div className="flex-1 min-w-0">
+          <h3 className="font-semibold truncate">{conversationName(conversation)}</h3>
+          {conversation.type === 'channel' ? (
+            <p className="text-xs text-muted-foreground truncate">
+              {conversation.subscriber_count === 1 ? '1 subscriber' : `${conversation.subscriber_count} subscribers`}
+            </p>
+          ) : !contact ? (
+            <p className="text-xs text-muted-foreground truncate">
+              {conversation.members.length} members · {conversation.members.map((m) => (m.user_id === user?.id ? 'You' : m.profile.name)).join(', ')}
+            </p>
+          ) : isContactTyping ? (
+            <p className="text-xs text-primary">{contact.profile.name} is typing…</p>
+          ) : (
+            <p className="text-xs text-muted-foreground">{presence.label ?? `UID: ${contact.profile.uid}`}</p>
+          )}
         </div>
+        {mayPost && conversation.join_code && (
+          <Button variant="ghost" size="sm" onClick={handleCopyJoinCode} aria-label="Copy channel code">
+            <Copy className="w-4 h-4" />
+            <span className="ml-1 text-xs font-mono">{conversation.join_code}</span>
+          </Button>
+        )}
+        {isChannelOwner && (
+          <Button variant="ghost" size="icon" onClick={() => setChannelMembersOpen(true)} aria-label="Channel admins">
+            <ShieldCheck className="w-4 h-4" />
+          </Button>
+        )}
+        {mayPost && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size={disappearingTimer ? 'sm' : 'icon'}
+                className={disappearingTimer ? 'text-primary' : ''}
+                aria-label="Disappearing messages"
+              >
+                <Timer className="w-4 h-4" />
+                {disappearingTimer && <span className="ml-1 text-xs">{timerLabel(disappearingTimer)}</span>}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuLabel>Disappearing messages</DropdownMenuLabel>
+              <DropdownMenuSeparator />
+              <DropdownMenuRadioGroup
+                value={String(disappearingTimer ?? 0)}
+                onValueChange={(value) => handleSetDisappearingTimer(Number(value) || null)}
+              >
+                {DISAPPEARING_TIMERS.map((timer) => (
+                  <DropdownMenuRadioItem key={timer.label} value={String(timer.seconds ?? 0)}>
+                    {timer.label}
+                  </DropdownMenuRadioItem>
+                ))}
+              </DropdownMenuRadioGroup>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
       </div>
 
+      <PinnedBanner
+        pins={pins}
+        onJumpToMessage={handleJumpToMessage}
+        onUnpin={mayPost ? (messageId) => handleTogglePin(messageId, true) : undefined}
+      />
+
+      {!isOnline && (
+        <div className="px-4 py-2 bg-muted border-b border-border flex items-center gap-2 text-xs text-muted-foreground">
+          <WifiOff className="w-4 h-4" />
+          You're offline. Messages will be sent when you reconnect.
+        </div>
+      )}
+
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-4 space-y-3 scrollbar-thin">
-        {messages.map((message) => {
-          const isSent = message.sender_id === user?.id;
-          const isEditing = editingMessage?.id === message.id;
-
-          return (
-            <div
-              key={message.id}
-              className={`flex ${isSent ? 'justify-end' : 'justify-start'} animate-fade-in`}
-            >
-              <div className={`max-w-[75%] ${isSent ? 'order-2' : ''}`}>
-                {message.reply_to && (
-                  <div className={`text-xs p-2 rounded-t-lg border-l-2 ${
-                    isSent 
-                      ? 'bg-primary/20 border-primary ml-auto' 
-                      : 'bg-muted border-muted-foreground'
-                  } max-w-full`}>
-                    <p className="font-medium text-[10px] mb-0.5">{message.reply_to.sender_name}</p>
-                    <p className="truncate opacity-70">{message.reply_to.content}</p>
-                  </div>
-                )}
-                
-                <div className={`group flex items-end gap-2 ${isSent ? 'flex-row-reverse' : ''}`}>
-                  <div
-                    className={`px-4 py-2 ${
-                      isSent ? 'message-bubble-sent' : 'message-bubble-received'
-                    } ${message.reply_to ? 'rounded-t-none' : ''}`}
-                  >
-                    {isEditing ? (
-                      <div className="flex items-center gap-2">
-                        <Input
-                          value={editContent}
-                          onChange={(e) => setEditContent(e.target.value)}
-                          className="h-7 text-sm bg-transparent border-0 p-0 focus-visible:ring-0"
-                          autoFocus
-                        />
-                        <Button
-                          size="icon"
-                          variant="ghost"
-                          className="h-6 w-6"
-                          onClick={handleEditMessage}
-                        >
-                          <Check className="w-3 h-3" />
-                        </Button>
-                        <Button
-                          size="icon"
-                          variant="ghost"
-                          className="h-6 w-6"
-                          onClick={() => setEditingMessage(null)}
-                        >
-                          <X className="w-3 h-3" />
-                        </Button>
-                      </div>
-                    ) : (
-                      <p className="text-sm">{message.content}</p>
-                    )}
-                    <div className={`flex items-center gap-1 mt-1 ${isSent ? 'justify-end' : ''}`}>
-                      <span className="text-[10px] opacity-60">
-                        {formatTime(message.created_at)}
-                      </span>
-                      {message.is_edited && (
-                        <span className="text-[10px] opacity-60">(edited)</span>
-                      )}
-                    </div>
-                  </div>
-
-                  {!isEditing && (
-                    <DropdownMenu>
-                      <DropdownMenuTrigger asChild>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
-                        >
-                          <MoreVertical className="w-3 h-3" />
-                        </Button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent align={isSent ? 'end' : 'start'}>
-                        <DropdownMenuItem onClick={() => setReplyTo(message)}>
-                          <Reply className="w-4 h-4 mr-2" />
-                          Reply
-                        </DropdownMenuItem>
-                        {isSent && (
-                          <>
-                            <DropdownMenuItem onClick={() => {
-                              setEditingMessage(message);
-                              setEditContent(message.content);
-                            }}>
-                              <Pencil className="w-4 h-4 mr-2" />
-                              Edit
-                            </DropdownMenuItem>
-                            <DropdownMenuItem
-                              onClick={() => handleDeleteMessage(message.id)}
-                              className="text-destructive"
-                            >
-                              <Trash2 className="w-4 h-4 mr-2" />
-                              Delete
-                            </DropdownMenuItem>
-                          </>
-                        )}
-                      </DropdownMenuContent>
-                    </DropdownMenu>
-                  )}
-                </div>
+      <MessageList
+        ref={messageListRef}
+        messages={messages}
+        currentUserId={user?.id}
+        hasOlderMessages={hasOlderMessages}
+        loadingOlder={loadingOlder}
+        onLoadOlder={loadOlderMessages}
+        renderMessage={(message, previous) => (
+          <>
+            {message.id === firstUnreadId && (
+              <div className="flex items-center gap-3 pb-3 text-[10px] uppercase tracking-wide text-primary">
+                <div className="flex-1 h-px bg-primary/40" />
+                New messages
+                <div className="flex-1 h-px bg-primary/40" />
               </div>
-            </div>
-          );
-        })}
-        <div ref={messagesEndRef} />
-      </div>
+            )}
+            {message.kind !== 'text' ? (
+              <SystemNote
+                message={message}
+                currentUserId={user?.id}
+                resolveName={resolveName}
+                onJumpToMessage={handleJumpToMessage}
+              />
+            ) : (
+              <MessageBubble
+                message={message}
+                currentUserId={user?.id}
+                isSent={message.sender_id === user?.id}
+                isEditing={editingMessage?.id === message.id}
+                isHighlighted={highlightedMessageId === message.id}
+                isSelecting={selectedIds !== null}
+                isSelected={!!selectedIds?.includes(message.id)}
+                isPinned={pins.some((p) => p.message_id === message.id)}
+                canPost={mayPost}
+                editContent={editContent}
+                editLimit={MAX_MESSAGE_LENGTH}
+                onEditContentChange={setEditContent}
+                onSaveEdit={handleEditMessage}
+                onCancelEdit={() => setEditingMessage(null)}
+                onReply={(m) => {
+                  setReplyTo(m);
+                  composerRef.current?.focus();
+                }}
+                onStartEdit={(m) => {
+                  setEditingMessage(m);
+                  setEditContent(m.content);
+                }}
+                onDelete={handleDeleteMessage}
+                onJumpToReply={handleJumpToMessage}
+                onRetry={retryMessage}
+                onDiscard={discardMessage}
+                onToggleReaction={handleToggleReaction}
+                onShowEditHistory={setHistoryMessage}
+                onForward={(m) => setForwardMessages([m])}
+                onStartSelect={(m) => setSelectedIds([m.id])}
+                onToggleSelect={handleToggleSelect}
+                onTogglePin={(m) => handleTogglePin(m.id, pins.some((p) => p.message_id === m.id))}
+                onToggleStar={handleToggleStar}
+                resolveName={resolveName}
+                sender={!contact && message.sender_id !== user?.id ? memberProfile(message.sender_id) : undefined}
+                showSender={previous?.kind !== 'text' || previous.sender_id !== message.sender_id || message.id === firstUnreadId}
+              />
+            )}
+          </>
+        )}
+        onReachBottom={markConversationRead}
+        onMessagesSeen={markAsRead}
+      />
+
+      <EditHistoryDialog message={historyMessage} onClose={() => setHistoryMessage(null)} />
+      {isChannelOwner && (
+        <ChannelMembersDialog
+          key={conversation.id}
+          open={channelMembersOpen}
+          onClose={() => setChannelMembersOpen(false)}
+          conversation={conversation}
+          currentUserId={user?.id}
+        />
+      )}
+      <ForwardDialog
+        messages={forwardMessages}
+        onClose={() => setForwardMessages(null)}
+        onForwarded={() => setSelectedIds(null)}
+      />
 
       {/* Reply indicator */}
       {replyTo && (
@@ -355,9 +574,9 @@ export function ChatArea({ contact }: ChatAreaProps) {
           <Reply className="w-4 h-4 text-muted-foreground" />
           <div className="flex-1 min-w-0">
             <p className="text-xs font-medium">
-              Replying to {replyTo.sender_id === user?.id ? 'yourself' : contact.profile.name}
+              Replying to {replyTo.sender_id === user?.id ? 'yourself' : resolveName(replyTo.sender_id)}
             </p>
-            <p className="text-xs text-muted-foreground truncate">{replyTo.content}</p>
+            <MessageContent content={replyTo.content} preview className="text-xs text-muted-foreground" />
           </div>
           <Button
             variant="ghost"
@@ -370,16 +589,104 @@ export function ChatArea({ contact }: ChatAreaProps) {
         </div>
       )}
 
+      {/* Scheduled messages */}
+      {scheduled.length > 0 && selectedIds === null && (
+        <button
+          type="button"
+          onClick={() => setScheduledOpen(true)}
+          className="px-4 py-2 bg-muted/50 border-t border-border flex items-center gap-2 text-xs text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <CalendarClock className="w-4 h-4" />
+          {scheduled.length === 1 ? '1 scheduled message' : `${scheduled.length} scheduled messages`}
+          {' · next '}
+          {formatSendAt(scheduled[0].send_at)}
+        </button>
+      )}
+
+      <ScheduledMessagesDialog
+        open={scheduledOpen}
+        onClose={() => setScheduledOpen(false)}
+        conversationName={conversationName(conversation)}
+        scheduled={scheduled}
+        onUpdate={handleUpdateScheduled}
+        onCancel={handleCancelScheduled}
+      />
+
+      {/* Selection bar */}
+      {selectedIds !== null && (
+        <div className="p-4 border-t border-border glass-effect flex items-center gap-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-9 w-9"
+            onClick={() => setSelectedIds(null)}
+            aria-label="Cancel selection"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+          <span className="flex-1 text-sm font-medium">
+            {selectedIds.length} selected
+          </span>
+          <Button
+            onClick={handleForwardSelected}
+            disabled={selectedIds.length === 0}
+            className="pagion-gradient"
+          >
+            <Forward className="w-4 h-4 mr-2" />
+            Forward
+          </Button>
+        </div>
+      )}
+
+      {/* Subscribers get a muted composer */}
+      {!mayPost && selectedIds === null && (
+        <div className="p-4 border-t border-border glass-effect flex items-center justify-center gap-2 text-sm text-muted-foreground">
+          <Megaphone className="w-4 h-4" />
+          Only channel owners and admins can post here.
+        </div>
+      )}
+
       {/* Input */}
-      <div className="p-4 border-t border-border glass-effect">
-        <div className="flex items-center gap-2">
-          <Input
+      <div className={`p-4 border-t border-border glass-effect ${selectedIds !== null || !mayPost ? 'hidden' : ''}`}>
+        <div className="flex items-end gap-2">
+          <ComposerTextarea
+            ref={composerRef}
             placeholder="Type a message..."
             value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
-            onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
-            className="h-11"
+            onChange={(value) => {
+              setNewMessage(value);
+              notifyTyping(value);
+            }}
+            onSubmit={handleSendMessage}
+            limit={MAX_MESSAGE_LENGTH}
+            className="py-3"
           />
+          <Popover
+            open={sendLaterOpen}
+            onOpenChange={(open) => {
+              if (open) setSendAt(defaultSendAt());
+              setSendLaterOpen(open);
+            }}
+          >
+            <PopoverTrigger asChild>
+              <Button
+                variant="outline"
+                size="icon"
+                className="h-11 w-11 flex-shrink-0"
+                disabled={!newMessage.trim()}
+                aria-label="Send later"
+              >
+                <CalendarClock className="w-5 h-5" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent align="end" className="w-auto space-y-3">
+              <p className="text-sm font-medium">Send later</p>
+              <SchedulePicker value={sendAt} onChange={setSendAt} />
+              <Button onClick={handleScheduleMessage} disabled={hasPassed(sendAt)} className="w-full pagion-gradient">
+                Schedule for {formatSendAt(sendAt)}
+              </Button>
+            </PopoverContent>
+          </Popover>
           <Button
             onClick={handleSendMessage}
             disabled={!newMessage.trim()}
@@ -0,0 +1,75 @@
+import React, { forwardRef, useImperativeHandle, useLayoutEffect, useRef } from 'react';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+
+interface ComposerTextareaProps
+  extends Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, 'onChange' | 'onSubmit'> {
+  value: string;
+  onChange: (value: string) => void;
+  /** Called on Enter; Shift+Enter inserts a newline instead. */
+  onSubmit: () => void;
+  /** Called on Escape. */
+  onCancel?: () => void;
+  /** Character limit; a counter appears once the text gets close to it. */
+  limit: number;
+  maxHeight?: number;
+}
+
+// Show the counter once 90% of the limit is used
+const COUNTER_THRESHOLD = 0.9;
+
+export const ComposerTextarea = forwardRef<HTMLTextAreaElement, ComposerTextareaProps>(function ComposerTextarea(
+  { value, onChange, onSubmit, onCancel, limit, maxHeight = 160, className, ...props },
+  ref
+) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  useImperativeHandle(ref, () => textareaRef.current);
+
+  // Grow with the content up to maxHeight, then scroll
+  useLayoutEffect(() => {
+    const el = textareaRef.current;
+    if (!el) return;
+    el.style.height = 'auto';
+    el.style.height = `${Math.min(el.scrollHeight, maxHeight)}px`;
+    el.style.overflowY = el.scrollHeight > maxHeight ? 'auto' : 'hidden';
+  }, [value, maxHeight]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter confirms an IME candidate while composing; it must not send
+    if (e.nativeEvent.isComposing || e.keyCode === 229) return;
+
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      onSubmit();
+    } else if (e.key === 'Escape' && onCancel) {
+      e.preventDefault();
+      onCancel();
+    }
+  };
+
+  const showCounter = value.length >= limit * COUNTER_THRESHOLD;
+
+  return (
+    <div className="relative flex-1 min-w-0">
+      <Textarea
+        ref={textareaRef}
+        rows={1}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        className={cn('min-h-0 resize-none scrollbar-thin', showCounter && 'pb-5', className)}
+        {...props}
+      />
+      {showCounter && (
+        <span
+          className={cn(
+            'absolute bottom-1 right-2 text-[10px] pointer-events-none',
+            value.length > limit ? 'text-destructive font-medium' : 'text-muted-foreground'
+          )}
+        >
+          {value.length.toLocaleString()} / {limit.toLocaleString()}
+        </span>
+      )}
+    </div>
+  );
+});
@@ -1,78 +1,185 @@
-import React, { useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { UserAvatar } from './UserAvatar';
+import { ConversationAvatar } from './ConversationAvatar';
+import { NewGroupDialog } from './NewGroupDialog';
+import { ChannelDialog } from './ChannelDialog';
+import { MessageContent } from './MessageContent';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuLabel,
+  ContextMenuSeparator,
+  ContextMenuSub,
+  ContextMenuSubContent,
+  ContextMenuSubTrigger,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Trash2, Search, UserPlus, X } from 'lucide-react';
-
-interface Contact {
-  id: string;
-  contact_user_id: string;
-  profile: {
-    name: string;
-    uid: string;
-    avatar_color: string;
-  };
-}
+import { useDrafts } from '@/hooks/use-drafts';
+import { loadContacts } from '@/lib/contacts';
+import { loadGroups, openDirectConversation } from '@/lib/conversations';
+import { MUTE_DURATIONS, PINNED_LIMIT, isMuted } from '@/lib/conversation-state';
+import { formatSendAt } from '@/lib/schedule';
+import { useTypingContacts } from '@/hooks/use-typing';
+import { useOnlineContacts } from '@/hooks/use-presence';
+import { formatActivityTime } from '@/lib/activity';
+import {
+  Plus,
+  Trash2,
+  Search,
+  UserPlus,
+  Users,
+  Megaphone,
+  Pin,
+  PinOff,
+  Bell,
+  BellOff,
+  Archive,
+  ArchiveRestore,
+  ChevronDown,
+  ChevronRight,
+} from 'lucide-react';
+import type { Contact, Conversation, ConversationMember, ConversationPreview, ConversationState } from '@/types/chat';
 
 interface ContactsListProps {
+  /** From useConversationPreviews, which the sidebar header shares for its unread total. */
+  previews: ConversationPreview[];
+  /** From useConversationStates, which the header also needs to leave muted conversations out of the total. */
+  states: Record<string, ConversationState>;
+  onUpdateState: (conversationId: string, changes: Partial<Omit<ConversationState, 'conversation_id'>>) => Promise<boolean>;
   onSelectContact: (contact: Contact) => void;
+  onSelectGroup: (conversation: Conversation) => void;
+  /** Called with every fresh load of groups and channels, e.g. after a role change. */
+  onGroupsLoaded?: (groups: Conversation[]) => void;
   selectedContactId: string | null;
+  selectedGroupId: string | null;
 }
 
-export function ContactsList({ onSelectContact, selectedContactId }: ContactsListProps) {
+type ChatRow = { preview?: ConversationPreview; state?: ConversationState } & (
+  | { kind: 'contact'; contact: Contact }
+  | { kind: 'shared'; conversation: Conversation }
+);
+
+const rowName = (row: ChatRow) => (row.kind === 'contact' ? row.contact.profile.name : row.conversation.title ?? '');
+
+// Most recent activity first; contacts never messaged go last, by name
+const compareRows = (a: ChatRow, b: ChatRow) => {
+  const aTime = a.preview ? new Date(a.preview.last_activity_at).getTime() : null;
+  const bTime = b.preview ? new Date(b.preview.last_activity_at).getTime() : null;
+  if (aTime !== null && bTime !== null && aTime !== bTime) return bTime - aTime;
+  if (aTime !== null && bTime === null) return -1;
+  if (aTime === null && bTime !== null) return 1;
+  return rowName(a).localeCompare(rowName(b));
+};
+
+// Pinned conversations first, in the order they were pinned
+const comparePinned = (a: ChatRow, b: ChatRow) => {
+  const aPinned = a.state?.pinned_at;
+  const bPinned = b.state?.pinned_at;
+  if (aPinned && bPinned) return new Date(aPinned).getTime() - new Date(bPinned).getTime();
+  if (aPinned) return -1;
+  if (bPinned) return 1;
+  return compareRows(a, b);
+};
+
+export function ContactsList({
+  previews,
+  states,
+  onUpdateState,
+  onSelectContact,
+  onSelectGroup,
+  onGroupsLoaded,
+  selectedContactId,
+  selectedGroupId,
+}: ContactsListProps) {
   const { user } = useAuth();
   const { toast } = useToast();
   const [contacts, setContacts] = useState<Contact[]>([]);
+  const [groups, setGroups] = useState<Conversation[]>([]);
+  const [newGroupOpen, setNewGroupOpen] = useState(false);
+  const [channelOpen, setChannelOpen] = useState(false);
   const [searchUid, setSearchUid] = useState('');
   const [addDialogOpen, setAddDialogOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const [filter, setFilter] = useState('');
+  const [showArchived, setShowArchived] = useState(false);
+  const drafts = useDrafts();
+  const typingContacts = useTypingContacts(contacts.map((c) => c.contact_user_id));
+  const onlineContacts = useOnlineContacts(contacts.map((c) => c.contact_user_id));
+  const [now, setNow] = useState(() => new Date());
+  const onGroupsLoadedRef = useRef(onGroupsLoaded);
+  onGroupsLoadedRef.current = onGroupsLoaded;
 
-  const fetchContacts = async () => {
-    if (!user) return;
+  // Keep relative times fresh
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
 
-    // First fetch contacts
-    const { data: contactsData, error: contactsError } = await supabase
-      .from('contacts')
-      .select('id, contact_user_id')
-      .eq('user_id', user.id);
+  const fetchContacts = useCallback(async () => {
+    if (!user) return;
+    setContacts((await loadContacts(user.id)) ?? []);
+  }, [user]);
 
-    if (contactsError || !contactsData || contactsData.length === 0) {
-      setContacts([]);
-      return;
+  const fetchGroups = useCallback(async () => {
+    if (!user) return null;
+    const result = await loadGroups(user.id);
+    if (result) {
+      setGroups(result);
+      onGroupsLoadedRef.current?.(result);
     }
+    return result;
+  }, [user]);
 
-    // Then fetch profiles for those contacts
-    const contactUserIds = contactsData.map(c => c.contact_user_id);
-    const { data: profilesData, error: profilesError } = await supabase
-      .from('profiles')
-      .select('user_id, name, uid, avatar_color')
-      .in('user_id', contactUserIds);
+  useEffect(() => {
+    fetchContacts();
+    fetchGroups();
+  }, [fetchContacts, fetchGroups]);
 
-    if (profilesError || !profilesData) {
-      setContacts([]);
-      return;
-    }
+  // Someone else may add us to a group; joining a channel lands here too.
+  // Role changes come through as updates, scoped by RLS to the members we can see.
+  useEffect(() => {
+    if (!user) return;
 
-    // Combine the data
-    const formattedContacts = contactsData.map((c) => {
-      const profile = profilesData.find(p => p.user_id === c.contact_user_id);
-      return {
-        id: c.id,
-        contact_user_id: c.contact_user_id,
-        profile: profile || { name: 'Unknown', uid: '????????', avatar_color: '#888888' },
-      };
-    });
-    setContacts(formattedContacts);
-  };
+    const channel = supabase
+      .channel(`memberships:${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'conversation_members',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => fetchGroups()
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'conversation_members',
+        },
+        () => fetchGroups()
+      )
+      .subscribe();
 
-  useEffect(() => {
-    fetchContacts();
-  }, [user]);
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchGroups]);
+
+  // Opens a group or channel the user just created or joined
+  const handleGroupCreated = async (conversationId: string) => {
+    const created = (await fetchGroups())?.find((g) => g.id === conversationId);
+    if (created) onSelectGroup(created);
+  };
 
   const handleAddContact = async () => {
     if (!user || !searchUid.trim()) return;
@@ -171,6 +278,258 @@ export function ContactsList({ onSelectContact, selectedContactId }: ContactsLis
     c.profile.name.toLowerCase().includes(filter.toLowerCase())
   );
 
+  const filteredShared = groups.filter((g) =>
+    (g.title ?? '').toLowerCase().includes(filter.toLowerCase())
+  );
+
+  const previewsByConversation = new Map(previews.map((p) => [p.conversation_id, p]));
+  const previewsByContact = new Map(
+    previews.filter((p) => p.contact_user_id).map((p) => [p.contact_user_id!, p])
+  );
+  const rows: ChatRow[] = [
+    ...filteredShared.map((conversation): ChatRow => ({
+      kind: 'shared',
+      conversation,
+      preview: previewsByConversation.get(conversation.id),
+      state: states[conversation.id],
+    })),
+    ...filteredContacts.map((contact): ChatRow => {
+      const preview = previewsByContact.get(contact.contact_user_id);
+      return { kind: 'contact', contact, preview, state: preview && states[preview.conversation_id] };
+    }),
+  ];
+  const activeRows = rows.filter((row) => !row.state?.archived_at).sort(comparePinned);
+  const archivedRows = rows.filter((row) => row.state?.archived_at).sort(compareRows);
+  const pinnedCount = Object.values(states).filter((state) => state.pinned_at).length;
+
+  // Contacts never messaged have no conversation until one is opened
+  const handleUpdateState = async (row: ChatRow, changes: Partial<Omit<ConversationState, 'conversation_id'>>) => {
+    const conversationId = row.kind === 'shared'
+      ? row.conversation.id
+      : row.preview?.conversation_id ?? (await openDirectConversation(row.contact))?.id;
+
+    if (!conversationId || !(await onUpdateState(conversationId, changes))) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update conversation.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleTogglePin = (row: ChatRow) => {
+    if (row.state?.pinned_at) {
+      handleUpdateState(row, { pinned_at: null });
+      return;
+    }
+    if (pinnedCount >= PINNED_LIMIT) {
+      toast({
+        title: 'Too many pinned chats',
+        description: `You can pin up to ${PINNED_LIMIT} conversations.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    handleUpdateState(row, { pinned_at: new Date().toISOString() });
+  };
+
+  const handleMute = (row: ChatRow, seconds: number | null) => {
+    handleUpdateState(row, {
+      muted: true,
+      muted_until: seconds ? new Date(Date.now() + seconds * 1000).toISOString() : null,
+    });
+  };
+
+  // Archiving also unpins, so the pinned list only holds what's visible
+  const handleToggleArchive = (row: ChatRow) => {
+    handleUpdateState(
+      row,
+      row.state?.archived_at ? { archived_at: null } : { archived_at: new Date().toISOString(), pinned_at: null }
+    );
+  };
+
+  // Muted conversations keep their unread count to themselves
+  const hasBadge = (row: ChatRow) => !!row.preview?.unread_count && !isMuted(row.state, now.getTime());
+
+  const renderTime = (row: ChatRow) => (
+    <>
+      {isMuted(row.state, now.getTime()) && <BellOff className="w-3 h-3 text-muted-foreground flex-shrink-0" />}
+      {row.state?.pinned_at && <Pin className="w-3 h-3 text-muted-foreground flex-shrink-0" />}
+      {row.preview?.message_id && (
+        <span className={`text-[10px] flex-shrink-0 ${hasBadge(row) ? 'text-primary' : 'text-muted-foreground'}`}>
+          {formatActivityTime(row.preview.last_activity_at, now)}
+        </span>
+      )}
+    </>
+  );
+
+  const renderUnread = (row: ChatRow) =>
+    hasBadge(row) && (
+      <span className="min-w-5 h-5 px-1.5 rounded-full bg-primary text-primary-foreground text-[10px] font-semibold flex items-center justify-center flex-shrink-0">
+        {row.preview!.unread_count > 99 ? '99+' : row.preview!.unread_count}
+      </span>
+    );
+
+  // Group snippets name their sender; channels only ever show what admins posted
+  const renderSnippet = (
+    preview: ConversationPreview | undefined,
+    members: ConversationMember[] | null,
+    fallback: React.ReactNode
+  ) => {
+    if (!preview?.message_id) return fallback;
+    if (preview.deleted) {
+      return <p className="text-xs text-muted-foreground italic truncate">Message deleted</p>;
+    }
+
+    const sender = preview.sender_id === user?.id
+      ? 'You'
+      : members?.find((m) => m.user_id === preview.sender_id)?.profile.name;
+    return (
+      <div className="flex text-xs text-muted-foreground min-w-0">
+        {sender && <span className="flex-shrink-0">{sender}:&nbsp;</span>}
+        <MessageContent content={preview.content} preview className="min-w-0" />
+      </div>
+    );
+  };
+
+  const renderSharedConversation = (row: ChatRow & { kind: 'shared' }) => {
+    const { conversation, preview } = row;
+    const draft = selectedGroupId === conversation.id ? null : drafts[conversation.id];
+
+    return (
+      <div
+        onClick={() => onSelectGroup(conversation)}
+        className={`flex items-center gap-3 p-3 cursor-pointer hover:bg-muted/50 transition-colors ${
+          selectedGroupId === conversation.id ? 'bg-muted' : ''
+        }`}
+      >
+        <ConversationAvatar conversation={conversation} size="md" />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-baseline gap-2">
+            <p className="font-medium truncate flex-1">{conversation.title}</p>
+            {renderTime(row)}
+          </div>
+          {draft?.text.trim() ? (
+            <p className="text-xs text-muted-foreground truncate">
+              <span className="text-destructive font-medium">Draft:</span> {draft.text}
+            </p>
+          ) : renderSnippet(
+            preview,
+            conversation.type === 'group' ? conversation.members : null,
+            conversation.type === 'channel' ? (
+              <p className="text-xs text-muted-foreground">
+                {conversation.subscriber_count === 1 ? '1 subscriber' : `${conversation.subscriber_count} subscribers`}
+              </p>
+            ) : (
+              <p className="text-xs text-muted-foreground">{conversation.members.length} members</p>
+            )
+          )}
+        </div>
+        {renderUnread(row)}
+      </div>
+    );
+  };
+
+  const renderContact = (row: ChatRow & { kind: 'contact' }) => {
+    const { contact, preview } = row;
+    const draft = selectedContactId === contact.contact_user_id ? null : drafts[contact.contact_user_id];
+
+    return (
+      <div
+        onClick={() => onSelectContact(contact)}
+        className={`flex items-center gap-3 p-3 cursor-pointer hover:bg-muted/50 transition-colors group ${
+          selectedContactId === contact.contact_user_id ? 'bg-muted' : ''
+        }`}
+      >
+        <UserAvatar
+          name={contact.profile.name}
+          color={contact.profile.avatar_color}
+          size="md"
+          online={onlineContacts.has(contact.contact_user_id)}
+        />
+        <div className="flex-1 min-w-0">
+          <div className="flex items-baseline gap-2">
+            <p className="font-medium truncate flex-1">{contact.profile.name}</p>
+            {renderTime(row)}
+          </div>
+          {typingContacts.has(contact.contact_user_id) ? (
+            <p className="text-xs text-primary truncate">{contact.profile.name} is typing…</p>
+          ) : draft?.text.trim() ? (
+            <p className="text-xs text-muted-foreground truncate">
+              <span className="text-destructive font-medium">Draft:</span> {draft.text}
+            </p>
+          ) : renderSnippet(
+            preview,
+            null,
+            <p className="text-xs text-muted-foreground">UID: {contact.profile.uid}</p>
+          )}
+        </div>
+        {renderUnread(row)}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="opacity-0 group-hover:opacity-100 transition-opacity h-8 w-8 text-destructive hover:text-destructive"
+          onClick={(e) => handleRemoveContact(contact.id, e)}
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+    );
+  };
+
+  const renderRow = (row: ChatRow) => {
+    const muted = isMuted(row.state, now.getTime());
+    const archived = !!row.state?.archived_at;
+
+    return (
+      <ContextMenu key={row.kind === 'contact' ? row.contact.id : row.conversation.id}>
+        <ContextMenuTrigger asChild>
+          {row.kind === 'contact' ? renderContact(row) : renderSharedConversation(row)}
+        </ContextMenuTrigger>
+        <ContextMenuContent className="w-56">
+          {muted && row.state?.muted_until && (
+            <>
+              <ContextMenuLabel className="text-xs font-normal text-muted-foreground">
+                Muted until {formatSendAt(row.state.muted_until)}
+              </ContextMenuLabel>
+              <ContextMenuSeparator />
+            </>
+          )}
+          {!archived && (
+            <ContextMenuItem onClick={() => handleTogglePin(row)}>
+              {row.state?.pinned_at ? <PinOff className="w-4 h-4 mr-2" /> : <Pin className="w-4 h-4 mr-2" />}
+              {row.state?.pinned_at ? 'Unpin' : 'Pin to top'}
+            </ContextMenuItem>
+          )}
+          {muted ? (
+            <ContextMenuItem onClick={() => handleUpdateState(row, { muted: false, muted_until: null })}>
+              <Bell className="w-4 h-4 mr-2" />
+              Unmute
+            </ContextMenuItem>
+          ) : (
+            <ContextMenuSub>
+              <ContextMenuSubTrigger>
+                <BellOff className="w-4 h-4 mr-2" />
+                Mute
+              </ContextMenuSubTrigger>
+              <ContextMenuSubContent>
+                {MUTE_DURATIONS.map((duration) => (
+                  <ContextMenuItem key={duration.label} onClick={() => handleMute(row, duration.seconds)}>
+                    {duration.label}
+                  </ContextMenuItem>
+                ))}
+              </ContextMenuSubContent>
+            </ContextMenuSub>
+          )}
+          <ContextMenuItem onClick={() => handleToggleArchive(row)}>
+            {archived ? <ArchiveRestore className="w-4 h-4 mr-2" /> : <Archive className="w-4 h-4 mr-2" />}
+            {archived ? 'Unarchive' : 'Archive'}
+          </ContextMenuItem>
+        </ContextMenuContent>
+      </ContextMenu>
+    );
+  };
+
   return (
     <div className="h-full flex flex-col">
       <div className="p-4 border-b border-border">
@@ -178,7 +537,7 @@ export function ContactsList({ onSelectContact, selectedContactId }: ContactsLis
           <div className="relative flex-1">
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
             <Input
-              placeholder="Search contacts..."
+              placeholder="Search chats..."
               value={filter}
               onChange={(e) => setFilter(e.target.value)}
               className="pl-9 h-9"
@@ -219,47 +578,64 @@ export function ContactsList({ onSelectContact, selectedContactId }: ContactsLis
               </div>
             </DialogContent>
           </Dialog>
+          <Button
+            size="icon"
+            variant="outline"
+            className="h-9 w-9"
+            onClick={() => setNewGroupOpen(true)}
+            aria-label="New group"
+          >
+            <Users className="w-4 h-4" />
+          </Button>
+          <NewGroupDialog
+            open={newGroupOpen}
+            onClose={() => setNewGroupOpen(false)}
+            contacts={contacts}
+            onCreated={handleGroupCreated}
+          />
+          <Button
+            size="icon"
+            variant="outline"
+            className="h-9 w-9"
+            onClick={() => setChannelOpen(true)}
+            aria-label="Channels"
+          >
+            <Megaphone className="w-4 h-4" />
+          </Button>
+          <ChannelDialog
+            open={channelOpen}
+            onClose={() => setChannelOpen(false)}
+            onDone={handleGroupCreated}
+          />
         </div>
       </div>
 
       <div className="flex-1 overflow-y-auto scrollbar-thin">
-        {filteredContacts.length === 0 ? (
+        {rows.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-full p-4 text-center">
             <UserPlus className="w-12 h-12 text-muted-foreground mb-2" />
             <p className="text-muted-foreground text-sm">
-              {contacts.length === 0 
-                ? 'No contacts yet. Add someone using their UID!' 
-                : 'No contacts match your search.'}
+              {contacts.length === 0 && groups.length === 0
+                ? 'No contacts yet. Add someone using their UID!'
+                : 'No chats match your search.'}
             </p>
           </div>
         ) : (
-          filteredContacts.map((contact) => (
-            <div
-              key={contact.id}
-              onClick={() => onSelectContact(contact)}
-              className={`flex items-center gap-3 p-3 cursor-pointer hover:bg-muted/50 transition-colors group ${
-                selectedContactId === contact.contact_user_id ? 'bg-muted' : ''
-              }`}
-            >
-              <UserAvatar
-                name={contact.profile.name}
-                color={contact.profile.avatar_color}
-                size="md"
-              />
-              <div className="flex-1 min-w-0">
-                <p className="font-medium truncate">{contact.profile.name}</p>
-                <p className="text-xs text-muted-foreground">UID: {contact.profile.uid}</p>
-              </div>
-              <Button
-                variant="ghost"
-                size="icon"
-                className="opacity-0 group-hover:opacity-100 transition-opacity h-8 w-8 text-destructive hover:text-destructive"
-                onClick={(e) => handleRemoveContact(contact.id, e)}
-              >
-                <Trash2 className="w-4 h-4" />
-              </Button>
-            </div>
-          ))
+          <>
+            {activeRows.map(renderRow)}
+            {archivedRows.length > 0 && (
+              <>
+                <button
+                  onClick={() => setShowArchived(!showArchived)}
+                  className="w-full flex items-center gap-2 px-3 pt-3 pb-1 text-[10px] uppercase tracking-wide text-muted-foreground hover:text-foreground transition-colors"
+                >
+                  {showArchived ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                  Archived ({archivedRows.length})
+                </button>
+                {showArchived && archivedRows.map(renderRow)}
+              </>
+            )}
+          </>
         )}
       </div>
     </div>
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Megaphone, Users } from 'lucide-react';
+import { UserAvatar } from './UserAvatar';
+import type { Conversation } from '@/types/chat';
+
+interface ConversationAvatarProps {
+  conversation: Conversation;
+  size?: 'sm' | 'md' | 'lg';
+  /** Direct conversations only: shows the contact's online dot. */
+  online?: boolean;
+}
+
+const sizeClasses = {
+  sm: 'w-8 h-8',
+  md: 'w-10 h-10',
+  lg: 'w-14 h-14',
+};
+
+const iconClasses = {
+  sm: 'w-4 h-4',
+  md: 'w-5 h-5',
+  lg: 'w-7 h-7',
+};
+
+/** The contact's avatar for direct conversations, a group or channel icon otherwise. */
+export function ConversationAvatar({ conversation, size = 'md', online = false }: ConversationAvatarProps) {
+  if (conversation.contact) {
+    return (
+      <UserAvatar
+        name={conversation.contact.profile.name}
+        color={conversation.contact.profile.avatar_color}
+        size={size}
+        online={online}
+      />
+    );
+  }
+
+  const Icon = conversation.type === 'channel' ? Megaphone : Users;
+  return (
+    <div className={`${sizeClasses[size]} rounded-full flex items-center justify-center bg-primary/15 text-primary flex-shrink-0`}>
+      <Icon className={iconClasses[size]} />
+    </div>
+  );
+}
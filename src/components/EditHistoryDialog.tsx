@@ -0,0 +1,118 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { diffWords } from '@/lib/diff';
+import { cn } from '@/lib/utils';
+import { History } from 'lucide-react';
+import type { Message } from '@/types/chat';
+
+interface EditHistoryDialogProps {
+  /** The message whose history is shown; null closes the dialog. */
+  message: Message | null;
+  onClose: () => void;
+}
+
+interface Revision {
+  content: string;
+  /** When this version was written. */
+  at: string;
+}
+
+const formatTimestamp = (dateString: string) =>
+  new Date(dateString).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+
+function RevisionDiff({ before, after }: { before: string; after: string }) {
+  const parts = useMemo(() => diffWords(before, after), [before, after]);
+
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words">
+      {parts.map((part, i) => (
+        <span
+          key={i}
+          className={cn(
+            part.type === 'insert' && 'bg-green-500/20 text-green-700 dark:text-green-300',
+            part.type === 'delete' && 'bg-destructive/15 text-destructive line-through'
+          )}
+        >
+          {part.text}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+export function EditHistoryDialog({ message, onClose }: EditHistoryDialogProps) {
+  const [revisions, setRevisions] = useState<Revision[] | null>(null);
+
+  useEffect(() => {
+    setRevisions(null);
+    if (!message) return;
+    let cancelled = false;
+
+    (async () => {
+      const { data, error } = await supabase
+        .from('message_edits')
+        .select('content, edited_at')
+        .eq('message_id', message.id)
+        .order('edited_at', { ascending: true });
+
+      if (cancelled) return;
+      if (error || !data) {
+        setRevisions([]);
+        return;
+      }
+
+      // Each stored row holds the text an edit replaced; it was written at the previous edit
+      setRevisions([
+        ...data.map((edit, i) => ({ content: edit.content, at: i === 0 ? message.created_at : data[i - 1].edited_at })),
+        { content: message.content, at: data.length > 0 ? data[data.length - 1].edited_at : message.created_at },
+      ]);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [message]);
+
+  return (
+    <Dialog open={!!message} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" />
+            Edit history
+          </DialogTitle>
+          <DialogDescription>Every version of this message, newest first.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto scrollbar-thin space-y-3">
+          {revisions === null ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : revisions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">The edit history could not be loaded.</p>
+          ) : (
+            revisions
+              .map((revision, i) => (
+                <div key={i} className="rounded-lg border border-border p-3 space-y-1">
+                  <p className="text-xs text-muted-foreground">
+                    {i === revisions.length - 1 ? 'Current' : i === 0 ? 'Original' : `Edit ${i}`}
+                    {' · '}
+                    {formatTimestamp(revision.at)}
+                  </p>
+                  {i === 0 ? (
+                    <p className="text-sm whitespace-pre-wrap break-words">{revision.content}</p>
+                  ) : (
+                    <RevisionDiff before={revisions[i - 1].content} after={revision.content} />
+                  )}
+                </div>
+              ))
+              .reverse()
+          )}
+          {revisions?.length === 1 && (
+            <p className="text-xs text-muted-foreground">Earlier versions of this message weren't recorded.</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,153 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { UserAvatar } from './UserAvatar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { loadContacts } from '@/lib/contacts';
+import { Forward, Search } from 'lucide-react';
+import type { Contact, Message } from '@/types/chat';
+
+interface ForwardDialogProps {
+  /** Messages to forward, in timeline order; null closes the dialog. */
+  messages: Message[] | null;
+  onClose: () => void;
+  onForwarded?: () => void;
+}
+
+export function ForwardDialog({ messages, onClose, onForwarded }: ForwardDialogProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [filter, setFilter] = useState('');
+  const [forwarding, setForwarding] = useState(false);
+  const open = !!messages;
+
+  useEffect(() => {
+    if (!user || !open) return;
+    setSelected([]);
+    setFilter('');
+    loadContacts(user.id).then((result) => setContacts(result ?? []));
+  }, [user, open]);
+
+  const toggleContact = (contactUserId: string) => {
+    setSelected((prev) =>
+      prev.includes(contactUserId) ? prev.filter((id) => id !== contactUserId) : [...prev, contactUserId]
+    );
+  };
+
+  const handleForward = async () => {
+    if (!user || !messages || selected.length === 0) return;
+    setForwarding(true);
+
+    // One insert at a time: rows from a single statement share a timestamp and would lose their order
+    let failed = 0;
+    for (const contactUserId of selected) {
+      const { data: conversationId, error: conversationError } = await supabase.rpc('get_direct_conversation', {
+        p_contact_id: contactUserId,
+      });
+      if (conversationError || !conversationId) {
+        failed += messages.length;
+        continue;
+      }
+
+      for (const message of messages) {
+        const { error } = await supabase.from('messages').insert({
+          conversation_id: conversationId,
+          sender_id: user.id,
+          receiver_id: contactUserId,
+          // Copied from the source message by the database; sent only because the column is required
+          content: message.content,
+          forwarded_from_message_id: message.id,
+        });
+        if (error) failed++;
+      }
+    }
+
+    setForwarding(false);
+
+    if (failed > 0) {
+      toast({
+        title: 'Error',
+        description: 'Some messages could not be forwarded.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Forwarded',
+      description: selected.length === 1
+        ? `Sent to ${contacts.find((c) => c.contact_user_id === selected[0])?.profile.name ?? '1 contact'}.`
+        : `Sent to ${selected.length} contacts.`,
+    });
+    onForwarded?.();
+    onClose();
+  };
+
+  const filteredContacts = contacts.filter((c) =>
+    c.profile.name.toLowerCase().includes(filter.toLowerCase())
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Forward className="w-5 h-5" />
+            Forward {messages && messages.length > 1 ? `${messages.length} messages` : 'message'}
+          </DialogTitle>
+          <DialogDescription>Choose who to send it to.</DialogDescription>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Search contacts..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            className="pl-9 h-9"
+          />
+        </div>
+
+        <div className="flex-1 overflow-y-auto scrollbar-thin -mx-2">
+          {filteredContacts.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              {contacts.length === 0 ? 'No contacts yet.' : 'No contacts match your search.'}
+            </p>
+          ) : (
+            filteredContacts.map((contact) => (
+              <label
+                key={contact.id}
+                className="flex items-center gap-3 px-2 py-2 rounded-md cursor-pointer hover:bg-muted/50"
+              >
+                <Checkbox
+                  checked={selected.includes(contact.contact_user_id)}
+                  onCheckedChange={() => toggleContact(contact.contact_user_id)}
+                />
+                <UserAvatar name={contact.profile.name} color={contact.profile.avatar_color} size="sm" />
+                <span className="text-sm font-medium truncate">{contact.profile.name}</span>
+              </label>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={handleForward}
+            disabled={forwarding || selected.length === 0}
+            className="w-full pagion-gradient"
+          >
+            {forwarding
+              ? 'Forwarding...'
+              : selected.length > 1 ? `Forward to ${selected.length} contacts` : 'Forward'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,364 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { MoreVertical, Reply, Pencil, Trash2, X, Check, CheckCheck, Clock, CloudOff, AlertCircle, RotateCw, Ban, Forward, ListChecks, Pin, PinOff, Star, StarOff, Timer } from 'lucide-react';
+import { ComposerTextarea } from './ComposerTextarea';
+import { MessageContent } from './MessageContent';
+import { MessageReactions } from './MessageReactions';
+import { UserAvatar } from './UserAvatar';
+import type { Contact, Message } from '@/types/chat';
+
+interface MessageBubbleProps {
+  message: Message;
+  currentUserId: string | undefined;
+  isSent: boolean;
+  isEditing: boolean;
+  isHighlighted: boolean;
+  /** Multi-select mode: clicking the bubble toggles its selection instead of acting on it. */
+  isSelecting: boolean;
+  isSelected: boolean;
+  isPinned: boolean;
+  /** Channel subscribers can't reply or pin. */
+  canPost?: boolean;
+  editContent: string;
+  editLimit: number;
+  onEditContentChange: (value: string) => void;
+  onSaveEdit: () => void;
+  onCancelEdit: () => void;
+  onReply: (message: Message) => void;
+  onStartEdit: (message: Message) => void;
+  onDelete: (messageId: string, scope: 'everyone' | 'me') => void;
+  onJumpToReply: (messageId: string) => void;
+  onRetry: (messageId: string) => void;
+  onDiscard: (messageId: string) => void;
+  onToggleReaction: (messageId: string, emoji: string) => void;
+  onShowEditHistory: (message: Message) => void;
+  onForward: (message: Message) => void;
+  onStartSelect: (message: Message) => void;
+  onToggleSelect: (message: Message) => void;
+  onTogglePin: (message: Message) => void;
+  onToggleStar: (messageId: string) => void;
+  resolveName: (userId: string) => string;
+  /** Group conversations: who sent a received message. */
+  sender?: Contact['profile'];
+  /** Whether the message starts a run from its sender, which shows their name and avatar. */
+  showSender?: boolean;
+}
+
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+const formatTime = (dateString: string) => {
+  return new Date(dateString).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+};
+
+export function MessageBubble({
+  message,
+  currentUserId,
+  isSent,
+  isEditing,
+  isHighlighted,
+  isSelecting,
+  isSelected,
+  isPinned,
+  canPost = true,
+  editContent,
+  editLimit,
+  onEditContentChange,
+  onSaveEdit,
+  onCancelEdit,
+  onReply,
+  onStartEdit,
+  onDelete,
+  onJumpToReply,
+  onRetry,
+  onDiscard,
+  onToggleReaction,
+  onShowEditHistory,
+  onForward,
+  onStartSelect,
+  onToggleSelect,
+  onTogglePin,
+  onToggleStar,
+  resolveName,
+  sender,
+  showSender = false,
+}: MessageBubbleProps) {
+  const isPending = message.status === 'pending';
+  const isQueued = message.status === 'queued';
+  const isFailed = message.status === 'failed';
+  const isDeleted = !!message.deleted_at;
+  // Only messages that reached the server can be forwarded
+  const canForward = !isDeleted && (!message.status || message.status === 'sent');
+
+  const handleSelectClick = (e: React.MouseEvent) => {
+    if (!isSelecting) return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (canForward) onToggleSelect(message);
+  };
+
+  return (
+    <div
+      onClickCapture={handleSelectClick}
+      className={`flex items-center gap-2 ${isSent ? 'justify-end' : 'justify-start'} ${
+        isSelecting ? (canForward ? 'cursor-pointer' : 'opacity-50') : ''
+      }`}
+    >
+      {isSelecting && (
+        <Checkbox
+          checked={isSelected}
+          disabled={!canForward}
+          className={`order-first ${isSent ? 'mr-auto' : ''}`}
+          aria-label="Select message"
+        />
+      )}
+      {sender && (
+        <div className="w-8 flex-shrink-0 self-start">
+          {showSender && <UserAvatar name={sender.name} color={sender.avatar_color} size="sm" />}
+        </div>
+      )}
+      <div
+        className={`max-w-[75%] rounded-lg transition-shadow duration-500 ${isSent ? 'order-2' : ''} ${
+          isHighlighted ? 'ring-2 ring-primary ring-offset-2 ring-offset-background' : ''
+        }`}
+      >
+        {sender && showSender && (
+          <p className="text-xs font-medium mb-1" style={{ color: sender.avatar_color }}>
+            {sender.name}
+          </p>
+        )}
+        {message.reply_to && (
+          message.reply_to.deleted ? (
+            <div className={`text-xs p-2 rounded-t-lg border-l-2 ${
+              isSent
+                ? 'bg-primary/20 border-primary ml-auto'
+                : 'bg-muted border-muted-foreground'
+            } max-w-full`}>
+              <p className="italic opacity-70">Original message was deleted</p>
+            </div>
+          ) : (
+            <button
+              type="button"
+              onClick={() => onJumpToReply(message.reply_to_id)}
+              className={`block w-full text-left text-xs p-2 rounded-t-lg border-l-2 hover:opacity-80 transition-opacity ${
+                isSent
+                  ? 'bg-primary/20 border-primary ml-auto'
+                  : 'bg-muted border-muted-foreground'
+              } max-w-full`}
+            >
+              <p className="font-medium text-[10px] mb-0.5">{message.reply_to.sender_name}</p>
+              <MessageContent content={message.reply_to.content} preview className="opacity-70" />
+            </button>
+          )
+        )}
+
+        <div className={`group flex items-end gap-2 ${isSent ? 'flex-row-reverse' : ''}`}>
+          <div
+            className={`px-4 py-2 ${
+              isSent ? 'message-bubble-sent' : 'message-bubble-received'
+            } ${message.reply_to ? 'rounded-t-none' : ''} ${isPending || isQueued || isFailed ? 'opacity-70' : ''}`}
+          >
+            {isEditing ? (
+              <div className="flex items-end gap-2">
+                <ComposerTextarea
+                  value={editContent}
+                  onChange={onEditContentChange}
+                  onSubmit={onSaveEdit}
+                  onCancel={onCancelEdit}
+                  limit={editLimit}
+                  className="text-sm bg-transparent border-0 p-0 focus-visible:ring-0 focus-visible:ring-offset-0"
+                  autoFocus
+                />
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6"
+                  onClick={onSaveEdit}
+                >
+                  <Check className="w-3 h-3" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6"
+                  onClick={onCancelEdit}
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+            ) : isDeleted ? (
+              <p className="flex items-center gap-1 text-sm italic opacity-70">
+                <Ban className="w-3 h-3" />
+                This message was deleted
+              </p>
+            ) : (
+              <>
+                {message.forwarded_from_name && (
+                  <p className="flex items-center gap-1 text-[11px] italic opacity-70 mb-0.5">
+                    <Forward className="w-3 h-3" />
+                    Forwarded from {message.forwarded_from_name}
+                  </p>
+                )}
+                <MessageContent content={message.content} className="text-sm" />
+              </>
+            )}
+            <div className={`flex items-center gap-1 mt-1 ${isSent ? 'justify-end' : ''}`}>
+              {message.expires_at && !isDeleted && <Timer className="w-3 h-3 opacity-60" aria-label="Disappearing message" />}
+              {message.is_starred && <Star className="w-3 h-3 opacity-60 fill-current" aria-label="Starred" />}
+              {isPinned && <Pin className="w-3 h-3 opacity-60" aria-label="Pinned" />}
+              <span className="text-[10px] opacity-60">
+                {formatTime(message.created_at)}
+              </span>
+              {message.is_edited && (
+                <button
+                  type="button"
+                  onClick={() => onShowEditHistory(message)}
+                  className="text-[10px] opacity-60 hover:opacity-100 hover:underline"
+                  title="View edit history"
+                >
+                  (edited)
+                </button>
+              )}
+              {isPending && <Clock className="w-3 h-3 opacity-60" aria-label="Sending" />}
+              {isQueued && <CloudOff className="w-3 h-3 opacity-60" aria-label="Queued until you're back online" />}
+              {isFailed && <AlertCircle className="w-3 h-3 text-destructive" aria-label="Not sent" />}
+              {/* Receipts are only tracked for direct messages */}
+              {isSent && message.receiver_id && (!message.status || message.status === 'sent') && (
+                message.read_at ? (
+                  <CheckCheck className="w-3 h-3 text-cyan-200" aria-label="Read" />
+                ) : message.delivered_at ? (
+                  <CheckCheck className="w-3 h-3 opacity-60" aria-label="Delivered" />
+                ) : (
+                  <Check className="w-3 h-3 opacity-60" aria-label="Sent" />
+                )
+              )}
+            </div>
+          </div>
+
+          {!isEditing && !isSelecting && !isPending && !isFailed && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 opacity-0 group-hover:opacity-100 transition-opacity"
+                >
+                  <MoreVertical className="w-3 h-3" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align={isSent ? 'end' : 'start'}>
+                {!isQueued && !isDeleted && (
+                  <>
+                    <div className="flex items-center gap-0.5 px-1 py-0.5">
+                      {QUICK_REACTIONS.map((emoji) => (
+                        <DropdownMenuItem
+                          key={emoji}
+                          onClick={() => onToggleReaction(message.id, emoji)}
+                          className={`h-8 w-8 justify-center p-0 text-base ${
+                            message.reactions?.some((r) => r.user_id === currentUserId && r.emoji === emoji)
+                              ? 'bg-primary/15'
+                              : ''
+                          }`}
+                          aria-label={`React with ${emoji}`}
+                        >
+                          {emoji}
+                        </DropdownMenuItem>
+                      ))}
+                    </div>
+                    <DropdownMenuSeparator />
+                  </>
+                )}
+                {!isDeleted && canPost && (
+                  <DropdownMenuItem onClick={() => onReply(message)}>
+                    <Reply className="w-4 h-4 mr-2" />
+                    Reply
+                  </DropdownMenuItem>
+                )}
+                {canForward && (
+                  <>
+                    <DropdownMenuItem onClick={() => onForward(message)}>
+                      <Forward className="w-4 h-4 mr-2" />
+                      Forward
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => onStartSelect(message)}>
+                      <ListChecks className="w-4 h-4 mr-2" />
+                      Select
+                    </DropdownMenuItem>
+                    {canPost && (
+                      <DropdownMenuItem onClick={() => onTogglePin(message)}>
+                        {isPinned ? <PinOff className="w-4 h-4 mr-2" /> : <Pin className="w-4 h-4 mr-2" />}
+                        {isPinned ? 'Unpin' : 'Pin'}
+                      </DropdownMenuItem>
+                    )}
+                    <DropdownMenuItem onClick={() => onToggleStar(message.id)}>
+                      {message.is_starred ? <StarOff className="w-4 h-4 mr-2" /> : <Star className="w-4 h-4 mr-2" />}
+                      {message.is_starred ? 'Unstar' : 'Star'}
+                    </DropdownMenuItem>
+                  </>
+                )}
+                {isSent && !isDeleted && (
+                  <>
+                    <DropdownMenuItem onClick={() => onStartEdit(message)}>
+                      <Pencil className="w-4 h-4 mr-2" />
+                      Edit
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      onClick={() => onDelete(message.id, 'everyone')}
+                      className="text-destructive"
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      {isQueued ? 'Delete' : 'Delete for everyone'}
+                    </DropdownMenuItem>
+                  </>
+                )}
+                {/* A queued send isn't on the server yet; deleting it above simply cancels it */}
+                {!isQueued && (
+                  <DropdownMenuItem
+                    onClick={() => onDelete(message.id, 'me')}
+                    className="text-destructive"
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete for me
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+
+        <MessageReactions
+          reactions={message.reactions ?? []}
+          currentUserId={currentUserId}
+          alignEnd={isSent}
+          resolveName={resolveName}
+          onToggle={(emoji) => onToggleReaction(message.id, emoji)}
+        />
+
+        {isFailed && (
+          <div className="flex items-center justify-end gap-1 mt-1 text-[11px] text-destructive">
+            <span className="truncate" title={message.error}>Not sent</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-[11px]"
+              onClick={() => onRetry(message.id)}
+            >
+              <RotateCw className="w-3 h-3 mr-1" />
+              Retry
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-[11px] text-muted-foreground"
+              onClick={() => onDiscard(message.id)}
+            >
+              <Trash2 className="w-3 h-3 mr-1" />
+              Discard
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { parseBlocks, parsePreview, type Block, type Inline } from '@/lib/markdown';
+import { cn } from '@/lib/utils';
+import { Copy, Check } from 'lucide-react';
+
+interface MessageContentProps {
+  content: string;
+  /** Single-line rendering for reply quotes and other previews. */
+  preview?: boolean;
+  className?: string;
+}
+
+function renderInline(nodes: Inline[], preview: boolean): React.ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={i}>{node.text}</React.Fragment>;
+      case 'bold':
+        return <strong key={i}>{renderInline(node.children, preview)}</strong>;
+      case 'italic':
+        return <em key={i}>{renderInline(node.children, preview)}</em>;
+      case 'strike':
+        return <s key={i}>{renderInline(node.children, preview)}</s>;
+      case 'code':
+        return (
+          <code key={i} className="px-1 py-0.5 rounded bg-foreground/10 font-mono text-[0.85em]">
+            {node.text}
+          </code>
+        );
+      case 'link':
+        // Previews are clickable as a whole (jump to message), so links render as text there
+        return preview ? (
+          <span key={i} className="underline">{node.text}</span>
+        ) : (
+          <a
+            key={i}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="underline underline-offset-2 break-all"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {node.text}
+          </a>
+        );
+    }
+  });
+}
+
+function CodeBlock({ lang, text }: { lang: string; text: string }) {
+  const [copied, setCopied] = useState(false);
+  const { toast } = useToast();
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+    } catch {
+      toast({
+        title: 'Error',
+        description: 'Failed to copy code.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="relative group/code my-1 rounded-md bg-foreground/10">
+      <div className="flex items-center justify-between px-2 pt-1 text-[10px] opacity-60">
+        <span className="font-mono">{lang}</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-5 w-5"
+          onClick={handleCopy}
+          aria-label="Copy code"
+        >
+          {copied ? <Check className="w-3 h-3" /> : <Copy className="w-3 h-3" />}
+        </Button>
+      </div>
+      <pre className="px-2 pb-2 overflow-x-auto scrollbar-thin text-xs font-mono whitespace-pre">
+        <code>{text}</code>
+      </pre>
+    </div>
+  );
+}
+
+function renderBlocks(blocks: Block[]): React.ReactNode[] {
+  return blocks.map((block, i) => {
+    switch (block.type) {
+      case 'paragraph':
+        return (
+          <p key={i} className="whitespace-pre-wrap break-words">
+            {renderInline(block.children, false)}
+          </p>
+        );
+      case 'code':
+        return <CodeBlock key={i} lang={block.lang} text={block.text} />;
+      case 'quote':
+        return (
+          <blockquote key={i} className="border-l-2 border-current pl-2 opacity-80">
+            {renderBlocks(block.children)}
+          </blockquote>
+        );
+    }
+  });
+}
+
+export function MessageContent({ content, preview = false, className }: MessageContentProps) {
+  const rendered = useMemo(
+    () => (preview ? renderInline(parsePreview(content), true) : renderBlocks(parseBlocks(content))),
+    [content, preview]
+  );
+
+  if (preview) {
+    return <p className={cn('truncate', className)}>{rendered}</p>;
+  }
+  return <div className={cn('space-y-1', className)}>{rendered}</div>;
+}
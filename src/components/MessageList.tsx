@@ -0,0 +1,171 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useLayoutEffect, useRef } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { Loader2 } from 'lucide-react';
+import type { Message } from '@/types/chat';
+
+export interface MessageListHandle {
+  scrollToMessage: (messageId: string) => boolean;
+  scrollToBottom: () => void;
+}
+
+interface MessageListProps {
+  messages: Message[];
+  currentUserId: string | undefined;
+  hasOlderMessages: boolean;
+  loadingOlder: boolean;
+  onLoadOlder: () => void;
+  /** Also gets the message above, e.g. to group consecutive messages from one sender. */
+  renderMessage: (message: Message, previous: Message | undefined) => React.ReactNode;
+  /** Called whenever the newest messages are on screen, e.g. to advance the read position. */
+  onReachBottom?: () => void;
+  /** Called with the newest message on screen while the tab is visible, e.g. to send read receipts. */
+  onMessagesSeen?: (lastSeen: Message) => void;
+}
+
+const LOAD_OLDER_THRESHOLD = 120; // px from the top before fetching the previous page
+const STICK_TO_BOTTOM_THRESHOLD = 80; // px from the bottom that still counts as "following" the chat
+const ESTIMATED_MESSAGE_HEIGHT = 64;
+const HEADER_HEIGHT = 32;
+
+export const MessageList = forwardRef<MessageListHandle, MessageListProps>(function MessageList(
+  { messages, currentUserId, hasOlderMessages, loadingOlder, onLoadOlder, renderMessage, onReachBottom, onMessagesSeen },
+  ref
+) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const stickToBottomRef = useRef(true);
+  const firstMessageIdRef = useRef<string | undefined>(undefined);
+  const lastMessageIdRef = useRef<string | undefined>(undefined);
+
+  // Row 0 is the header (loading spinner / beginning marker); message i lives at row i + 1
+  const virtualizer = useVirtualizer({
+    count: messages.length + 1,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: (index) => (index === 0 ? HEADER_HEIGHT : ESTIMATED_MESSAGE_HEIGHT),
+    getItemKey: (index) => (index === 0 ? 'header' : messages[index - 1].id),
+    overscan: 8,
+    paddingStart: 16,
+    paddingEnd: 16,
+    gap: 12,
+  });
+
+  // Rows above the viewport settle their real height after being measured; shift the
+  // scroll position with them so the visible messages don't jump while paging upwards.
+  virtualizer.shouldAdjustScrollPositionOnItemSizeChange = (item, _delta, instance) =>
+    item.start < (instance.scrollOffset ?? 0);
+
+  const reportSeen = () => {
+    const container = scrollRef.current;
+    if (!container || document.visibilityState !== 'visible') return;
+
+    if (stickToBottomRef.current) onReachBottom?.();
+    if (!onMessagesSeen) return;
+    const viewportEnd = container.scrollTop + container.clientHeight;
+    const lastSeen = virtualizer
+      .getVirtualItems()
+      .filter((item) => item.index > 0 && item.start < viewportEnd)
+      .pop();
+    if (lastSeen) onMessagesSeen(messages[lastSeen.index - 1]);
+  };
+  const reportSeenRef = useRef(reportSeen);
+  reportSeenRef.current = reportSeen;
+
+  const scrollToBottom = () => {
+    if (messages.length === 0) return;
+    virtualizer.scrollToIndex(messages.length, { align: 'end' });
+  };
+
+  useImperativeHandle(ref, () => ({
+    scrollToMessage: (messageId: string) => {
+      const index = messages.findIndex((m) => m.id === messageId);
+      if (index === -1) return false;
+      virtualizer.scrollToIndex(index + 1, { align: 'center' });
+      return true;
+    },
+    scrollToBottom,
+  }));
+
+  useLayoutEffect(() => {
+    const firstId = messages[0]?.id;
+    const lastId = messages[messages.length - 1]?.id;
+    const previousFirstId = firstMessageIdRef.current;
+    const previousLastId = lastMessageIdRef.current;
+    firstMessageIdRef.current = firstId;
+    lastMessageIdRef.current = lastId;
+
+    const container = scrollRef.current;
+    if (!container || messages.length === 0) return;
+
+    // An older page was prepended: offset the scroll position by the height of the new rows
+    if (previousFirstId && firstId !== previousFirstId) {
+      const anchorIndex = messages.findIndex((m) => m.id === previousFirstId);
+      if (anchorIndex > 0) {
+        const { measurementsCache: measurements } = virtualizer;
+        container.scrollTop += measurements[anchorIndex + 1].start - measurements[1].start;
+      }
+    }
+
+    if (lastId !== previousLastId) {
+      const ownMessage = messages[messages.length - 1].sender_id === currentUserId;
+      if (!previousLastId || stickToBottomRef.current || ownMessage) {
+        virtualizer.scrollToIndex(messages.length, { align: 'end' });
+      }
+    }
+    reportSeenRef.current();
+  }, [messages, currentUserId, virtualizer]);
+
+  // Messages that arrived while the tab was hidden count as seen once it's back
+  useEffect(() => {
+    const handleVisibilityChange = () => reportSeenRef.current();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const { scrollTop, scrollHeight, clientHeight } = e.currentTarget;
+    stickToBottomRef.current = scrollHeight - scrollTop - clientHeight < STICK_TO_BOTTOM_THRESHOLD;
+    reportSeen();
+    if (scrollTop < LOAD_OLDER_THRESHOLD && hasOlderMessages && !loadingOlder) {
+      onLoadOlder();
+    }
+  };
+
+  return (
+    <div
+      ref={scrollRef}
+      onScroll={handleScroll}
+      className="flex-1 overflow-y-auto scrollbar-thin"
+      style={{ overflowAnchor: 'none' }}
+    >
+      <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+        {virtualizer.getVirtualItems().map((item) => (
+          <div
+            key={item.key}
+            data-index={item.index}
+            ref={virtualizer.measureElement}
+            className="absolute left-0 top-0 w-full px-4"
+            style={{ transform: `translateY(${item.start}px)` }}
+          >
+            {item.index === 0 ? (
+              <>
+                {loadingOlder && (
+                  <div className="flex justify-center py-2">
+                    <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />
+                  </div>
+                )}
+                {!hasOlderMessages && !loadingOlder && messages.length > 0 && (
+                  <div className="flex items-center gap-3 py-2 text-[10px] uppercase tracking-wide text-muted-foreground">
+                    <div className="flex-1 h-px bg-border" />
+                    Beginning of conversation
+                    <div className="flex-1 h-px bg-border" />
+                  </div>
+                )}
+              </>
+            ) : (
+              renderMessage(messages[item.index - 1], messages[item.index - 2])
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+});
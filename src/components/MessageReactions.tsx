@@ -0,0 +1,50 @@
+import React from 'react';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import type { Reaction } from '@/types/chat';
+
+interface MessageReactionsProps {
+  reactions: Reaction[];
+  currentUserId: string | undefined;
+  alignEnd: boolean;
+  resolveName: (userId: string) => string;
+  onToggle: (emoji: string) => void;
+}
+
+export function MessageReactions({ reactions, currentUserId, alignEnd, resolveName, onToggle }: MessageReactionsProps) {
+  if (reactions.length === 0) return null;
+
+  // Group by emoji, keeping the order in which each emoji was first used
+  const groups = new Map<string, Reaction[]>();
+  reactions.forEach((reaction) => {
+    groups.set(reaction.emoji, [...(groups.get(reaction.emoji) ?? []), reaction]);
+  });
+
+  return (
+    <div className={`flex flex-wrap gap-1 mt-1 ${alignEnd ? 'justify-end' : ''}`}>
+      {Array.from(groups, ([emoji, group]) => {
+        const reactedByMe = group.some((r) => r.user_id === currentUserId);
+        const names = group.map((r) => (r.user_id === currentUserId ? 'You' : resolveName(r.user_id)));
+
+        return (
+          <Tooltip key={emoji}>
+            <TooltipTrigger asChild>
+              <button
+                type="button"
+                onClick={() => onToggle(emoji)}
+                className={`flex items-center gap-1 h-6 px-2 rounded-full border text-xs transition-colors ${
+                  reactedByMe
+                    ? 'bg-primary/15 border-primary text-foreground'
+                    : 'bg-muted border-border hover:bg-muted/70'
+                }`}
+              >
+                <span>{emoji}</span>
+                <span className="font-medium">{group.length}</span>
+              </button>
+            </TooltipTrigger>
+            <TooltipContent className="text-xs">{names.join(', ')}</TooltipContent>
+          </Tooltip>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { UserAvatar } from './UserAvatar';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { createGroup } from '@/lib/conversations';
+import { Search, Users } from 'lucide-react';
+import type { Contact } from '@/types/chat';
+
+interface NewGroupDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Contacts that can be added to the group. */
+  contacts: Contact[];
+  onCreated: (conversationId: string) => void;
+}
+
+const MAX_TITLE_LENGTH = 100;
+
+export function NewGroupDialog({ open, onClose, contacts, onCreated }: NewGroupDialogProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState('');
+  const [selected, setSelected] = useState<string[]>([]);
+  const [filter, setFilter] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setTitle('');
+    setSelected([]);
+    setFilter('');
+  }, [open]);
+
+  const toggleContact = (contactUserId: string) => {
+    setSelected((prev) =>
+      prev.includes(contactUserId) ? prev.filter((id) => id !== contactUserId) : [...prev, contactUserId]
+    );
+  };
+
+  const handleCreate = async () => {
+    const trimmedTitle = title.trim();
+    if (!trimmedTitle || selected.length === 0) return;
+    setCreating(true);
+
+    const conversationId = await createGroup(trimmedTitle, selected);
+    setCreating(false);
+
+    if (!conversationId) {
+      toast({
+        title: 'Error',
+        description: 'Failed to create group.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Group created',
+      description: `${trimmedTitle} has been created.`,
+    });
+    onCreated(conversationId);
+    onClose();
+  };
+
+  const filteredContacts = contacts.filter((c) =>
+    c.profile.name.toLowerCase().includes(filter.toLowerCase())
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5" />
+            New Group
+          </DialogTitle>
+          <DialogDescription>Name the group and pick who to add from your contacts.</DialogDescription>
+        </DialogHeader>
+
+        <Input
+          placeholder="Group name"
+          value={title}
+          onChange={(e) => setTitle(e.target.value)}
+          maxLength={MAX_TITLE_LENGTH}
+          autoFocus
+        />
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Search contacts..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            className="pl-9 h-9"
+          />
+        </div>
+
+        <div className="flex-1 overflow-y-auto scrollbar-thin -mx-2">
+          {filteredContacts.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              {contacts.length === 0 ? 'No contacts yet.' : 'No contacts match your search.'}
+            </p>
+          ) : (
+            filteredContacts.map((contact) => (
+              <label
+                key={contact.id}
+                className="flex items-center gap-3 px-2 py-2 rounded-md cursor-pointer hover:bg-muted/50"
+              >
+                <Checkbox
+                  checked={selected.includes(contact.contact_user_id)}
+                  onCheckedChange={() => toggleContact(contact.contact_user_id)}
+                />
+                <UserAvatar name={contact.profile.name} color={contact.profile.avatar_color} size="sm" />
+                <span className="text-sm font-medium truncate">{contact.profile.name}</span>
+              </label>
+            ))
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={handleCreate}
+            disabled={creating || !title.trim() || selected.length === 0}
+            className="w-full pagion-gradient"
+          >
+            {creating
+              ? 'Creating...'
+              : selected.length > 0
+                ? `Create group with ${selected.length} ${selected.length === 1 ? 'contact' : 'contacts'}`
+                : 'Create group'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
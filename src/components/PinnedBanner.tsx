@@ -0,0 +1,60 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { MessageContent } from './MessageContent';
+import { Pin as PinIcon, X } from 'lucide-react';
+import type { Pin } from '@/types/chat';
+
+interface PinnedBannerProps {
+  pins: Pin[];
+  onJumpToMessage: (messageId: string) => void;
+  /** Omitted when the user may not unpin. */
+  onUnpin?: (messageId: string) => void;
+}
+
+/** Shows one pin at a time; each click jumps to it and moves on to the next. */
+export function PinnedBanner({ pins, onJumpToMessage, onUnpin }: PinnedBannerProps) {
+  const [index, setIndex] = useState(0);
+
+  // Pins come and go in realtime; stay within range
+  useEffect(() => {
+    if (index >= pins.length) setIndex(0);
+  }, [pins.length, index]);
+
+  if (pins.length === 0) return null;
+
+  const pin = pins[Math.min(index, pins.length - 1)];
+
+  const handleClick = () => {
+    onJumpToMessage(pin.message_id);
+    setIndex((i) => (i + 1) % pins.length);
+  };
+
+  return (
+    <div className="px-4 py-2 bg-muted/50 border-b border-border flex items-center gap-2">
+      <button
+        type="button"
+        onClick={handleClick}
+        className="flex-1 min-w-0 flex items-center gap-2 text-left hover:opacity-80 transition-opacity"
+      >
+        <PinIcon className="w-4 h-4 text-primary flex-shrink-0" />
+        <div className="min-w-0">
+          <p className="text-xs font-medium text-primary">
+            Pinned message{pins.length > 1 && ` ${Math.min(index, pins.length - 1) + 1} of ${pins.length}`}
+          </p>
+          <MessageContent content={pin.content} preview className="text-xs text-muted-foreground" />
+        </div>
+      </button>
+      {onUnpin && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          onClick={() => onUnpin(pin.message_id)}
+          aria-label="Unpin message"
+        >
+          <X className="w-3 h-3" />
+        </Button>
+      )}
+    </div>
+  );
+}
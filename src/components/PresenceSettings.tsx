@@ -0,0 +1,148 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { UserAvatar } from './UserAvatar';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { Eye } from 'lucide-react';
+
+interface PresenceContact {
+  contact_user_id: string;
+  hide_presence: boolean;
+  name: string;
+  avatar_color: string;
+}
+
+/** Online status and last seen visibility, for everyone or per contact. */
+export function PresenceSettings() {
+  const { user, profile, refreshProfile } = useAuth();
+  const { toast } = useToast();
+  const [contacts, setContacts] = useState<PresenceContact[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const fetchContacts = useCallback(async () => {
+    if (!user) return;
+
+    const { data: contactsData } = await supabase
+      .from('contacts')
+      .select('contact_user_id, hide_presence')
+      .eq('user_id', user.id);
+
+    if (!contactsData || contactsData.length === 0) {
+      setContacts([]);
+      return;
+    }
+
+    const { data: profilesData } = await supabase
+      .from('profiles')
+      .select('user_id, name, avatar_color')
+      .in('user_id', contactsData.map((c) => c.contact_user_id));
+
+    setContacts(
+      contactsData
+        .map((c) => {
+          const contactProfile = profilesData?.find((p) => p.user_id === c.contact_user_id);
+          return {
+            ...c,
+            name: contactProfile?.name ?? 'Unknown',
+            avatar_color: contactProfile?.avatar_color ?? '#888888',
+          };
+        })
+        .sort((a, b) => a.name.localeCompare(b.name))
+    );
+  }, [user]);
+
+  useEffect(() => {
+    fetchContacts();
+  }, [fetchContacts]);
+
+  const handleToggleVisibility = async (visible: boolean) => {
+    if (!profile) return;
+    setSaving(true);
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ presence_visibility: visible ? 'everyone' : 'nobody' })
+      .eq('user_id', profile.user_id);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update online status.',
+        variant: 'destructive',
+      });
+    } else {
+      await refreshProfile();
+    }
+    setSaving(false);
+  };
+
+  const handleToggleContact = async (contactUserId: string, hidden: boolean) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('contacts')
+      .update({ hide_presence: hidden })
+      .eq('user_id', user.id)
+      .eq('contact_user_id', contactUserId);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update online status.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setContacts((prev) =>
+      prev.map((c) => (c.contact_user_id === contactUserId ? { ...c, hide_presence: hidden } : c))
+    );
+  };
+
+  if (!profile) return null;
+
+  const visible = profile.presence_visibility === 'everyone';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Eye className="w-5 h-5 flex-shrink-0" />
+          <div>
+            <Label htmlFor="online-status">Online status</Label>
+            <p className="text-xs text-muted-foreground">
+              When off, no one sees when you're online or when you were last seen
+            </p>
+          </div>
+        </div>
+        <Switch
+          id="online-status"
+          checked={visible}
+          onCheckedChange={handleToggleVisibility}
+          disabled={saving}
+        />
+      </div>
+
+      {visible && contacts.length > 0 && (
+        <div className="space-y-2 pl-8">
+          <p className="text-xs font-medium text-muted-foreground">Hide from</p>
+          {contacts.map((contact) => (
+            <div key={contact.contact_user_id} className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2 min-w-0">
+                <UserAvatar name={contact.name} color={contact.avatar_color} size="sm" />
+                <span className="text-sm truncate">{contact.name}</span>
+              </div>
+              <Switch
+                checked={contact.hide_presence}
+                onCheckedChange={(hidden) => handleToggleContact(contact.contact_user_id, hidden)}
+                aria-label={`Hide online status from ${contact.name}`}
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
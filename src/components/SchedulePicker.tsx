@@ -0,0 +1,58 @@
+import React from 'react';
+import { format, isToday, startOfDay } from 'date-fns';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { hasPassed } from '@/lib/schedule';
+
+interface SchedulePickerProps {
+  value: Date;
+  onChange: (value: Date) => void;
+}
+
+/**
+ * Date and time of day for a scheduled message. A time that has already
+ * passed is kept but flagged; the caller holds off scheduling until it's fixed.
+ */
+export function SchedulePicker({ value, onChange }: SchedulePickerProps) {
+  const handleDateChange = (day: Date | undefined) => {
+    if (!day) return;
+    const next = new Date(day);
+    next.setHours(value.getHours(), value.getMinutes(), 0, 0);
+    onChange(next);
+  };
+
+  const handleTimeChange = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    if (Number.isNaN(hours) || Number.isNaN(minutes)) return;
+    const next = new Date(value);
+    next.setHours(hours, minutes, 0, 0);
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Calendar
+        mode="single"
+        selected={value}
+        onSelect={handleDateChange}
+        disabled={{ before: startOfDay(new Date()) }}
+        className="p-0"
+        initialFocus
+      />
+      <div className="flex items-center gap-2">
+        <Label htmlFor="schedule-time" className="text-xs text-muted-foreground">Time</Label>
+        <Input
+          id="schedule-time"
+          type="time"
+          value={format(value, 'HH:mm')}
+          min={isToday(value) ? format(new Date(), 'HH:mm') : undefined}
+          onChange={(e) => handleTimeChange(e.target.value)}
+          className="h-8 flex-1"
+          aria-invalid={hasPassed(value)}
+        />
+      </div>
+      {hasPassed(value) && <p className="text-xs text-destructive">Pick a time in the future.</p>}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { MessageContent } from './MessageContent';
+import { SchedulePicker } from './SchedulePicker';
+import { formatSendAt, hasPassed } from '@/lib/schedule';
+import { CalendarClock, Pencil, Trash2 } from 'lucide-react';
+import type { ScheduledMessage } from '@/types/chat';
+
+interface ScheduledMessagesDialogProps {
+  open: boolean;
+  onClose: () => void;
+  conversationName: string;
+  scheduled: ScheduledMessage[];
+  /** Resolves to true once the change is saved. */
+  onUpdate: (id: string, content: string, sendAt: Date) => Promise<boolean>;
+  onCancel: (id: string) => Promise<boolean>;
+}
+
+export function ScheduledMessagesDialog({
+  open,
+  onClose,
+  conversationName,
+  scheduled,
+  onUpdate,
+  onCancel,
+}: ScheduledMessagesDialogProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState('');
+  const [editSendAt, setEditSendAt] = useState(new Date());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) setEditingId(null);
+  }, [open]);
+
+  // The message may go out while it's being edited
+  useEffect(() => {
+    if (editingId && !scheduled.some((s) => s.id === editingId)) setEditingId(null);
+  }, [scheduled, editingId]);
+
+  const startEdit = (message: ScheduledMessage) => {
+    setEditingId(message.id);
+    setEditContent(message.content);
+    setEditSendAt(new Date(message.send_at));
+  };
+
+  const handleSave = async () => {
+    if (!editingId || !editContent.trim()) return;
+    setSaving(true);
+    if (await onUpdate(editingId, editContent.trim(), editSendAt)) setEditingId(null);
+    setSaving(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5" />
+            Scheduled messages
+          </DialogTitle>
+          <DialogDescription>Waiting to be sent to {conversationName}.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto scrollbar-thin space-y-3">
+          {scheduled.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Nothing scheduled.</p>
+          ) : (
+            scheduled.map((message) =>
+              editingId === message.id ? (
+                <div key={message.id} className="rounded-lg border border-border p-3 space-y-3">
+                  <Textarea
+                    value={editContent}
+                    onChange={(e) => setEditContent(e.target.value)}
+                    className="min-h-[80px]"
+                    autoFocus
+                  />
+                  <SchedulePicker value={editSendAt} onChange={setEditSendAt} />
+                  <div className="flex justify-end gap-2">
+                    <Button variant="ghost" size="sm" onClick={() => setEditingId(null)}>
+                      Cancel
+                    </Button>
+                    <Button size="sm" onClick={handleSave} disabled={saving || !editContent.trim() || hasPassed(editSendAt)}>
+                      {saving ? 'Saving...' : 'Save'}
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div key={message.id} className="rounded-lg border border-border p-3 flex items-start gap-2">
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <p className="text-xs text-muted-foreground">{formatSendAt(message.send_at)}</p>
+                    <MessageContent content={message.content} className="text-sm" />
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 flex-shrink-0"
+                    onClick={() => startEdit(message)}
+                    aria-label="Edit scheduled message"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 flex-shrink-0 text-destructive"
+                    onClick={() => onCancel(message.id)}
+                    aria-label="Cancel scheduled message"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              )
+            )
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
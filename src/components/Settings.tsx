@@ -3,6 +3,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
 import { UserAvatar } from './UserAvatar';
+import { PresenceSettings } from './PresenceSettings';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -10,7 +11,7 @@ import { Switch } from '@/components/ui/switch';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
-import { Copy, RefreshCw, Moon, Sun, LogOut, Settings as SettingsIcon, Check } from 'lucide-react';
+import { Copy, RefreshCw, Moon, Sun, LogOut, Settings as SettingsIcon, Check, CheckCheck } from 'lucide-react';
 
 interface SettingsProps {
   onClose: () => void;
@@ -25,6 +26,7 @@ export function Settings({ onClose }: SettingsProps) {
   const [regenerating, setRegenerating] = useState(false);
   const [copied, setCopied] = useState(false);
   const [logoutDialogOpen, setLogoutDialogOpen] = useState(false);
+  const [savingReceipts, setSavingReceipts] = useState(false);
 
   const handleSaveName = async () => {
     if (!profile || !name.trim()) return;
@@ -90,6 +92,27 @@ export function Settings({ onClose }: SettingsProps) {
     setRegenerating(false);
   };
 
+  const handleToggleReadReceipts = async (enabled: boolean) => {
+    if (!profile) return;
+    setSavingReceipts(true);
+
+    const { error } = await supabase
+      .from('profiles')
+      .update({ send_read_receipts: enabled })
+      .eq('user_id', profile.user_id);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update read receipts.',
+        variant: 'destructive',
+      });
+    } else {
+      await refreshProfile();
+    }
+    setSavingReceipts(false);
+  };
+
   const handleCopyUid = () => {
     if (profile?.uid) {
       navigator.clipboard.writeText(profile.uid);
@@ -203,6 +226,34 @@ export function Settings({ onClose }: SettingsProps) {
         </CardContent>
       </Card>
 
+      {/* Privacy Card */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Privacy</CardTitle>
+          <CardDescription>Control what others can see about you</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              <CheckCheck className="w-5 h-5 flex-shrink-0" />
+              <div>
+                <Label htmlFor="read-receipts">Read receipts</Label>
+                <p className="text-xs text-muted-foreground">
+                  When off, contacts won't see when you've read their messages
+                </p>
+              </div>
+            </div>
+            <Switch
+              id="read-receipts"
+              checked={profile.send_read_receipts}
+              onCheckedChange={handleToggleReadReceipts}
+              disabled={savingReceipts}
+            />
+          </div>
+          <PresenceSettings />
+        </CardContent>
+      </Card>
+
       {/* Logout Button */}
       <Button
         variant="destructive"
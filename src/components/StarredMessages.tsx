@@ -0,0 +1,176 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { ConversationAvatar } from './ConversationAvatar';
+import { MessageContent } from './MessageContent';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { loadContacts } from '@/lib/contacts';
+import { conversationName, loadGroups } from '@/lib/conversations';
+import { Star, StarOff } from 'lucide-react';
+import type { Conversation, ConversationType, StarredMessage } from '@/types/chat';
+
+interface StarredMessagesProps {
+  /** Opens the conversation and scrolls to the message. */
+  onOpenMessage: (conversation: Conversation, messageId: string) => void;
+}
+
+interface StarredGroup {
+  conversation: Conversation;
+  messages: StarredMessage[];
+}
+
+const formatDate = (dateString: string) =>
+  new Date(dateString).toLocaleDateString([], { dateStyle: 'medium' });
+
+/** The current user's starred messages across all conversations, grouped by conversation. */
+export function StarredMessages({ onOpenMessage }: StarredMessagesProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [groups, setGroups] = useState<StarredGroup[] | null>(null);
+
+  const fetchStarred = useCallback(async () => {
+    if (!user) return;
+
+    const [{ data, error }, contacts, groupConversations] = await Promise.all([
+      supabase.rpc('get_starred_messages'),
+      loadContacts(user.id),
+      loadGroups(user.id),
+    ]);
+
+    if (error || !data) {
+      setGroups([]);
+      return;
+    }
+
+    // Rows arrive most recently starred first; groups keep that order
+    const byConversation = new Map<string, StarredGroup>();
+    for (const row of data) {
+      const message: StarredMessage = { ...row, conversation_type: row.conversation_type as ConversationType };
+      let group = byConversation.get(row.conversation_id);
+      if (!group) {
+        const conversation: Conversation = row.contact_user_id
+          ? {
+              id: row.conversation_id,
+              type: 'direct',
+              title: null,
+              contact: contacts?.find((c) => c.contact_user_id === row.contact_user_id) ?? {
+                id: row.contact_user_id,
+                contact_user_id: row.contact_user_id,
+                profile: { name: 'Unknown', uid: '????????', avatar_color: '#888888' },
+              },
+              members: [],
+              join_code: null,
+              subscriber_count: 0,
+            }
+          : groupConversations?.find((c) => c.id === row.conversation_id) ?? {
+              id: row.conversation_id,
+              type: message.conversation_type,
+              title: row.conversation_title,
+              contact: null,
+              members: [],
+              join_code: null,
+              subscriber_count: 0,
+            };
+        group = { conversation, messages: [] };
+        byConversation.set(row.conversation_id, group);
+      }
+      group.messages.push(message);
+    }
+    setGroups([...byConversation.values()]);
+  }, [user]);
+
+  useEffect(() => {
+    fetchStarred();
+  }, [fetchStarred]);
+
+  const senderName = (conversation: Conversation, senderId: string) => {
+    if (senderId === user?.id) return 'You';
+    if (conversation.contact) return conversation.contact.profile.name;
+    return conversation.members.find((m) => m.user_id === senderId)?.profile.name ?? 'Unknown';
+  };
+
+  const handleUnstar = async (messageId: string) => {
+    if (!user) return;
+
+    const { error } = await supabase
+      .from('starred_messages')
+      .delete()
+      .eq('user_id', user.id)
+      .eq('message_id', messageId);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to unstar message.',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setGroups((prev) =>
+      (prev ?? [])
+        .map((g) => ({ ...g, messages: g.messages.filter((m) => m.message_id !== messageId) }))
+        .filter((g) => g.messages.length > 0)
+    );
+  };
+
+  return (
+    <div className="p-4 space-y-4 max-w-md mx-auto">
+      <div className="flex items-center gap-2 mb-6">
+        <Star className="w-5 h-5" />
+        <h2 className="text-xl font-bold">Starred</h2>
+      </div>
+
+      {groups === null ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : groups.length === 0 ? (
+        <div className="text-center py-8">
+          <Star className="w-10 h-10 text-muted-foreground mx-auto mb-2" />
+          <p className="text-sm text-muted-foreground">No starred messages</p>
+          <p className="text-xs text-muted-foreground">Star a message to find it here later</p>
+        </div>
+      ) : (
+        groups.map(({ conversation, messages }) => (
+          <section key={conversation.id} className="space-y-2">
+            <div className="flex items-center gap-2">
+              <ConversationAvatar conversation={conversation} size="sm" />
+              <h3 className="text-sm font-semibold truncate">{conversationName(conversation)}</h3>
+            </div>
+            {messages.map((message) => (
+              <div
+                key={message.message_id}
+                className="rounded-lg border border-border flex items-start gap-2 hover:bg-muted/50 transition-colors"
+              >
+                <button
+                  type="button"
+                  onClick={() => onOpenMessage(conversation, message.message_id)}
+                  className="flex-1 min-w-0 p-3 text-left"
+                >
+                  <p className="text-xs text-muted-foreground">
+                    {senderName(conversation, message.sender_id)}
+                    {' · '}
+                    {formatDate(message.created_at)}
+                  </p>
+                  {message.forwarded_from_name && (
+                    <p className="text-xs italic text-muted-foreground">Forwarded from {message.forwarded_from_name}</p>
+                  )}
+                  <MessageContent content={message.content} preview className="text-sm" />
+                </button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 m-1 flex-shrink-0"
+                  onClick={() => handleUnstar(message.message_id)}
+                  aria-label="Unstar message"
+                >
+                  <StarOff className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+          </section>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import React from 'react';
+import { MessageContent } from './MessageContent';
+import { Pin, PinOff, Timer } from 'lucide-react';
+import { timerLabel } from '@/lib/disappearing';
+import type { Message } from '@/types/chat';
+
+interface SystemNoteProps {
+  message: Message;
+  currentUserId: string | undefined;
+  resolveName: (userId: string) => string;
+  onJumpToMessage: (messageId: string) => void;
+}
+
+/** Timeline note for conversation events such as pinning a message or changing the disappearing timer. */
+export function SystemNote({ message, currentUserId, resolveName, onJumpToMessage }: SystemNoteProps) {
+  const actor = message.sender_id === currentUserId ? 'You' : resolveName(message.sender_id);
+
+  if (message.kind === 'timer') {
+    const seconds = Number(message.content) || null;
+    return (
+      <div className="flex justify-center">
+        <p className="flex items-center gap-1.5 max-w-[75%] px-3 py-1 rounded-full bg-muted text-[11px] text-muted-foreground">
+          <Timer className="w-3 h-3 flex-shrink-0" />
+          {seconds
+            ? `${actor} set disappearing messages to ${timerLabel(seconds)}`
+            : `${actor} turned off disappearing messages`}
+        </p>
+      </div>
+    );
+  }
+
+  const Icon = message.kind === 'pin' ? Pin : PinOff;
+  const target = message.reply_to;
+  const canJump = !!message.reply_to_id && !!target && !target.deleted;
+
+  return (
+    <div className="flex justify-center">
+      <button
+        type="button"
+        disabled={!canJump}
+        onClick={() => message.reply_to_id && onJumpToMessage(message.reply_to_id)}
+        className="flex items-center gap-1.5 max-w-[75%] px-3 py-1 rounded-full bg-muted text-[11px] text-muted-foreground enabled:hover:bg-muted/70 transition-colors"
+      >
+        <Icon className="w-3 h-3 flex-shrink-0" />
+        <span className="flex-shrink-0">
+          {actor} {message.kind === 'pin' ? 'pinned' : 'unpinned'}
+        </span>
+        {canJump ? (
+          <MessageContent content={target.content} preview className="min-w-0 italic" />
+        ) : (
+          <span>a message</span>
+        )}
+      </button>
+    </div>
+  );
+}
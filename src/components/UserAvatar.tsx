@@ -4,6 +4,8 @@ interface UserAvatarProps {
   name: string;
   color: string;
   size?: 'sm' | 'md' | 'lg';
+  /** Shows a green dot when true. */
+  online?: boolean;
 }
 
 const sizeClasses = {
@@ -12,15 +14,21 @@ const sizeClasses = {
   lg: 'w-14 h-14 text-lg',
 };
 
-export function UserAvatar({ name, color, size = 'md' }: UserAvatarProps) {
+export function UserAvatar({ name, color, size = 'md', online = false }: UserAvatarProps) {
   const initial = name.charAt(0).toUpperCase();
   
   return (
     <div
-      className={`${sizeClasses[size]} rounded-full flex items-center justify-center font-semibold text-white flex-shrink-0`}
+      className={`${sizeClasses[size]} relative rounded-full flex items-center justify-center font-semibold text-white flex-shrink-0`}
       style={{ backgroundColor: color }}
     >
       {initial}
+      {online && (
+        <span
+          className="absolute bottom-0 right-0 w-3 h-3 rounded-full bg-green-500 border-2 border-card"
+          aria-label="Online"
+        />
+      )}
     </div>
   );
 }
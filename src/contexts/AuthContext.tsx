@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { clearDrafts } from '@/lib/drafts';
+import { clearOutbox } from '@/lib/outbox';
 
 interface Profile {
   id: string;
@@ -8,6 +10,8 @@ interface Profile {
   name: string;
   uid: string;
   avatar_color: string;
+  send_read_receipts: boolean;
+  presence_visibility: string;
   created_at: string;
   updated_at: string;
 }
@@ -113,6 +117,11 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   const signOut = async () => {
+    if (user) {
+      clearDrafts(user.id);
+      // Otherwise unsent messages stay on the device for whoever uses it next
+      await clearOutbox(user.id).catch(() => {});
+    }
     await supabase.auth.signOut();
     setProfile(null);
   };
@@ -0,0 +1,835 @@
+import { useEffect, useRef, useState } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { cancelQueuedMessage, enqueue, isNetworkError, listOutbox, subscribeToOutbox } from '@/lib/outbox';
+import { isExpired } from '@/lib/disappearing';
+import type { Conversation, Message, MessageKind, Pin, Reaction } from '@/types/chat';
+
+type MessageRow = Tables<'messages'>;
+type ReactionRow = Tables<'message_reactions'>;
+type ConversationRow = Database['public']['Functions']['get_conversation_page']['Returns'][number];
+
+const PAGE_SIZE = 50;
+const UNIQUE_VIOLATION = '23505';
+
+const byCreatedAt = (a: Message, b: Message) =>
+  new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+
+/** Replaces a message with its tombstone and marks quotes of it as deleted. */
+const withTombstone = (messages: Message[], messageId: string, deletedAt: string) =>
+  messages.map((m) => {
+    if (m.id === messageId) {
+      return { ...m, content: '', is_edited: false, deleted_at: m.deleted_at ?? deletedAt, reactions: [], is_starred: false };
+    }
+    if (m.reply_to_id === messageId && m.reply_to) {
+      return { ...m, reply_to: { content: '', sender_name: '', deleted: true } };
+    }
+    return m;
+  });
+
+/** Drops expired messages and marks quotes of them as deleted. */
+const withoutExpired = (messages: Message[], now: number) => {
+  const expired = new Set(messages.filter((m) => isExpired(m.expires_at, now)).map((m) => m.id));
+  if (expired.size === 0) return messages;
+  return messages
+    .filter((m) => !expired.has(m.id))
+    .map((m) =>
+      m.reply_to_id && expired.has(m.reply_to_id) && m.reply_to
+        ? { ...m, reply_to: { content: '', sender_name: '', deleted: true } }
+        : m
+    );
+};
+
+export function useConversationMessages(conversation: Conversation | null) {
+  const { user, profile } = useAuth();
+  const contact = conversation?.contact ?? null;
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [hasOlderMessages, setHasOlderMessages] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [pins, setPins] = useState<Pin[]>([]);
+  // Disappearing-messages timer in seconds; null when off
+  const [disappearingTimer, setDisappearingTimerState] = useState<number | null>(null);
+  // Conversation whose first page of history is in `messages`
+  const [loadedConversationId, setLoadedConversationId] = useState<string | null>(null);
+  // Where the "New messages" divider goes; fixed while the conversation stays open
+  const [firstUnreadId, setFirstUnreadId] = useState<string | null>(null);
+  const messagesRef = useRef<Message[]>([]);
+  // Guards against responses for a conversation that is no longer open
+  const conversationKeyRef = useRef<string | null>(null);
+  const loadingOlderRef = useRef(false);
+  // The newest message read receipts were sent up to
+  const receiptsUpToRef = useRef<string | null>(null);
+  // The read position as last sent to the server
+  const readUpToRef = useRef<string | null>(null);
+
+  messagesRef.current = messages;
+
+  const senderName = (senderId: string) => {
+    if (senderId === user?.id) return profile?.name || 'You';
+    if (contact) return contact.profile.name;
+    return conversation?.members.find((m) => m.user_id === senderId)?.profile.name || 'Unknown';
+  };
+
+  const toMessage = (row: ConversationRow, conversationId: string): Message => ({
+    id: row.id,
+    conversation_id: conversationId,
+    sender_id: row.sender_id,
+    receiver_id: row.receiver_id,
+    content: row.content,
+    kind: row.kind as MessageKind,
+    reply_to_id: row.reply_to_id,
+    is_edited: !!row.is_edited,
+    created_at: row.created_at,
+    delivered_at: row.delivered_at,
+    read_at: row.read_at,
+    deleted_at: row.deleted_at,
+    forwarded_from_name: row.forwarded_from_name,
+    expires_at: row.expires_at,
+    reply_to: row.reply_to_id
+      ? {
+          content: row.reply_to_content ?? '',
+          sender_name: row.reply_to_sender_name ?? (row.reply_to_sender_id ? senderName(row.reply_to_sender_id) : ''),
+          deleted: !!row.reply_to_deleted,
+        }
+      : undefined,
+    reactions: (row.reactions as unknown as Reaction[]) ?? [],
+    is_starred: !!row.is_starred,
+  });
+
+  // Fetches one page of history, newest first, strictly older than the (created_at, id) cursor
+  const fetchPage = async (before?: Message) => {
+    if (!conversation) return null;
+
+    const { data, error } = await supabase.rpc('get_conversation_page', {
+      p_conversation_id: conversation.id,
+      p_before_created_at: before?.created_at,
+      p_before_id: before?.id,
+      p_limit: PAGE_SIZE,
+    });
+
+    if (error || !data) return null;
+
+    return { page: data.reverse().map((row) => toMessage(row, conversation.id)), hasMore: data.length === PAGE_SIZE };
+  };
+
+  const prependPage = (page: Message[]) => {
+    setMessages((prev) => {
+      const known = new Set(prev.map((m) => m.id));
+      return [...page.filter((m) => !known.has(m.id)), ...prev];
+    });
+  };
+
+  const fetchMessages = async () => {
+    if (!user || !conversation) return;
+
+    const key = conversation.id;
+    conversationKeyRef.current = key;
+    setMessages([]);
+    setPins([]);
+    setDisappearingTimerState(null);
+    setLoadedConversationId(null);
+    setFirstUnreadId(null);
+    readUpToRef.current = null;
+    receiptsUpToRef.current = null;
+    setHasOlderMessages(false);
+    setLoadingOlder(false);
+    loadingOlderRef.current = false;
+
+    fetchPins();
+    fetchDisappearingTimer();
+    const [result, queued, readPosition] = await Promise.all([fetchPage(), listQueuedWrites(), fetchReadPosition()]);
+    if (!result || conversationKeyRef.current !== key) return;
+
+    readUpToRef.current = readPosition?.last_read_at ?? null;
+    setFirstUnreadId(readPosition?.first_unread_id ?? null);
+    setMessages(withQueuedWrites(result.page, queued));
+    setHasOlderMessages(result.hasMore);
+    setLoadedConversationId(key);
+  };
+
+  const fetchPins = async () => {
+    if (!conversation) return;
+
+    const key = conversation.id;
+    const { data, error } = await supabase.rpc('get_conversation_pins', { p_conversation_id: key });
+    if (error || !data || conversationKeyRef.current !== key) return;
+
+    setPins(data.map(({ message_id, pinned_by, pinned_at, sender_id, content }) => ({
+      message_id,
+      pinned_by,
+      pinned_at,
+      sender_id,
+      content,
+    })));
+  };
+
+  const fetchDisappearingTimer = async () => {
+    if (!conversation) return;
+
+    const key = conversation.id;
+    const { data, error } = await supabase
+      .from('conversations')
+      .select('message_ttl_seconds')
+      .eq('id', key)
+      .maybeSingle();
+    if (error || conversationKeyRef.current !== key) return;
+
+    setDisappearingTimerState(data?.message_ttl_seconds ?? null);
+  };
+
+  // The first unread message may be pages back; the divider shows once it's loaded
+  const fetchReadPosition = async () => {
+    if (!conversation) return null;
+
+    const { data } = await supabase.rpc('get_read_position', { p_conversation_id: conversation.id });
+    return data?.[0] ?? null;
+  };
+
+  const listQueuedWrites = async () => {
+    if (!user || !conversation) return [];
+    const entries = await listOutbox(user.id).catch(() => []);
+    return entries.filter((e) => e.conversation_id === conversation.id);
+  };
+
+  // Re-applies writes still waiting in the offline outbox on top of server state
+  const withQueuedWrites = (page: Message[], queued: Awaited<ReturnType<typeof listQueuedWrites>>) => {
+    let result = page;
+    for (const entry of queued) {
+      if (entry.kind === 'send') {
+        if (result.some((m) => m.id === entry.message_id)) continue;
+        const original = result.find((m) => m.id === entry.reply_to_id);
+        result = [...result, {
+          id: entry.message_id,
+          conversation_id: entry.conversation_id,
+          sender_id: entry.user_id,
+          receiver_id: entry.receiver_id,
+          content: entry.content,
+          kind: 'text',
+          reply_to_id: entry.reply_to_id,
+          is_edited: false,
+          created_at: entry.queued_at,
+          delivered_at: null,
+          read_at: null,
+          deleted_at: null,
+          forwarded_from_name: null,
+          expires_at: null,
+          reply_to: entry.reply_to_id
+            ? original
+              ? { content: original.content, sender_name: senderName(original.sender_id), deleted: false }
+              : { content: '', sender_name: '', deleted: false }
+            : undefined,
+          status: 'queued',
+        }];
+      } else if (entry.kind === 'edit') {
+        result = result.map((m) => (m.id === entry.message_id ? { ...m, content: entry.content, is_edited: true } : m));
+      } else {
+        result = withTombstone(result, entry.message_id, entry.queued_at);
+      }
+    }
+    return result;
+  };
+
+  const loadOlderMessages = async () => {
+    if (!user || !conversation || loadingOlderRef.current || !hasOlderMessages || messages.length === 0) return;
+
+    const key = conversation.id;
+    loadingOlderRef.current = true;
+    setLoadingOlder(true);
+
+    const result = await fetchPage(messages[0]);
+    if (conversationKeyRef.current !== key) return;
+
+    if (result) {
+      prependPage(result.page);
+      setHasOlderMessages(result.hasMore);
+    }
+    loadingOlderRef.current = false;
+    setLoadingOlder(false);
+  };
+
+  /**
+   * Pages backwards until the given message is loaded. Resolves to false if it
+   * isn't part of this conversation's history.
+   */
+  const loadUntilMessage = async (messageId: string) => {
+    if (messagesRef.current.some((m) => m.id === messageId)) return true;
+    if (!conversation || loadingOlderRef.current) return false;
+
+    const key = conversation.id;
+    loadingOlderRef.current = true;
+    setLoadingOlder(true);
+
+    let oldest = messagesRef.current[0];
+    let hasMore = hasOlderMessages;
+    const loaded: Message[] = [];
+    let found = false;
+
+    while (hasMore && !found) {
+      const result = await fetchPage(oldest);
+      if (!result || conversationKeyRef.current !== key) break;
+      loaded.unshift(...result.page);
+      oldest = result.page[0];
+      hasMore = result.hasMore;
+      found = result.page.some((m) => m.id === messageId);
+    }
+
+    if (conversationKeyRef.current === key) {
+      prependPage(loaded);
+      setHasOlderMessages(hasMore);
+      loadingOlderRef.current = false;
+      setLoadingOlder(false);
+    }
+    return found;
+  };
+
+  const updateMessage = (messageId: string, changes: Partial<Message>) => {
+    setMessages((prev) => prev.map((m) => (m.id === messageId ? { ...m, ...changes } : m)));
+  };
+
+  const queueSend = async (message: Message) => {
+    try {
+      await enqueue({
+        kind: 'send',
+        user_id: message.sender_id,
+        message_id: message.id,
+        conversation_id: message.conversation_id,
+        receiver_id: message.receiver_id,
+        content: message.content,
+        reply_to_id: message.reply_to_id,
+      });
+      updateMessage(message.id, { status: 'queued', error: undefined });
+      return true;
+    } catch {
+      updateMessage(message.id, { status: 'failed', error: 'You are offline.' });
+      return false;
+    }
+  };
+
+  // Inserts with the client-generated id, so a retry of a send that actually reached
+  // the server hits the primary key instead of posting twice. Without a connection
+  // the send goes to the offline outbox instead.
+  const insertMessage = async (message: Message) => {
+    if (!navigator.onLine) return queueSend(message);
+
+    const { data, error } = await supabase
+      .from('messages')
+      .insert({
+        id: message.id,
+        conversation_id: message.conversation_id,
+        sender_id: message.sender_id,
+        receiver_id: message.receiver_id,
+        content: message.content,
+        reply_to_id: message.reply_to_id,
+      })
+      .select('created_at')
+      .maybeSingle();
+
+    if (error && isNetworkError(error)) return queueSend(message);
+
+    if (error && error.code !== UNIQUE_VIOLATION) {
+      updateMessage(message.id, { status: 'failed', error: error.message });
+      return false;
+    }
+
+    markSent(message.id, data?.created_at);
+    return true;
+  };
+
+  const markSent = (messageId: string, createdAt?: string) => {
+    setMessages((prev) =>
+      prev
+        .map((m) =>
+          m.id === messageId
+            ? { ...m, created_at: createdAt ?? m.created_at, status: 'sent' as const, error: undefined }
+            : m
+        )
+        .sort(byCreatedAt)
+    );
+  };
+
+  /** Shows the message immediately as pending, then inserts it. */
+  const sendMessage = async (content: string, replyTo: Message | null) => {
+    if (!user || !conversation) return false;
+
+    const now = Date.now();
+    const message: Message = {
+      id: crypto.randomUUID(),
+      conversation_id: conversation.id,
+      sender_id: user.id,
+      receiver_id: contact?.contact_user_id ?? null,
+      content,
+      kind: 'text',
+      reply_to_id: replyTo?.id ?? null,
+      is_edited: false,
+      created_at: new Date(now).toISOString(),
+      delivered_at: null,
+      read_at: null,
+      deleted_at: null,
+      forwarded_from_name: null,
+      // The server sets the real expiry when the message arrives
+      expires_at: disappearingTimer ? new Date(now + disappearingTimer * 1000).toISOString() : null,
+      reply_to: replyTo
+        ? { content: replyTo.content, sender_name: senderName(replyTo.sender_id), deleted: false }
+        : undefined,
+      status: 'pending',
+    };
+
+    setMessages((prev) => [...prev, message]);
+    return insertMessage(message);
+  };
+
+  const retryMessage = async (messageId: string) => {
+    const message = messagesRef.current.find((m) => m.id === messageId);
+    if (!message || message.status !== 'failed') return false;
+
+    updateMessage(messageId, { status: 'pending', error: undefined });
+    return insertMessage(message);
+  };
+
+  const discardMessage = (messageId: string) => {
+    setMessages((prev) => prev.filter((m) => !(m.id === messageId && m.status === 'failed')));
+  };
+
+  const editMessage = async (messageId: string, content: string) => {
+    if (!user || !conversation) return false;
+
+    const message = messagesRef.current.find((m) => m.id === messageId);
+    const queueEdit = async () => {
+      await enqueue({ kind: 'edit', user_id: user.id, message_id: messageId, conversation_id: conversation.id, content });
+      updateMessage(messageId, { content, is_edited: true });
+      return true;
+    };
+
+    // Edits to a send that hasn't gone out yet must stay behind it in the outbox
+    if (!navigator.onLine || message?.status === 'queued') return queueEdit().catch(() => false);
+
+    const { error } = await supabase
+      .from('messages')
+      .update({ content, is_edited: true })
+      .eq('id', messageId);
+
+    if (error && isNetworkError(error)) return queueEdit().catch(() => false);
+    if (error) return false;
+
+    updateMessage(messageId, { content, is_edited: true });
+    return true;
+  };
+
+  /**
+   * 'everyone' leaves a tombstone in place of the sender's message; 'me' hides
+   * any message from the current user's view only.
+   */
+  const deleteMessage = async (messageId: string, scope: 'everyone' | 'me') => {
+    if (!user || !conversation) return false;
+
+    const message = messagesRef.current.find((m) => m.id === messageId);
+    const removeLocally = () => setMessages((prev) => prev.filter((m) => m.id !== messageId));
+    const tombstoneLocally = () =>
+      setMessages((prev) => withTombstone(prev, messageId, new Date().toISOString()));
+
+    if (scope === 'me') {
+      const { error } = await supabase
+        .from('hidden_messages')
+        .insert({ user_id: user.id, message_id: messageId });
+      if (error && error.code !== UNIQUE_VIOLATION) return false;
+      removeLocally();
+      return true;
+    }
+
+    const queueDelete = async () => {
+      // A send still in the outbox can simply be cancelled
+      if (await cancelQueuedMessage(user.id, messageId)) {
+        removeLocally();
+        return true;
+      }
+      await enqueue({ kind: 'delete', user_id: user.id, message_id: messageId, conversation_id: conversation.id });
+      tombstoneLocally();
+      return true;
+    };
+
+    if (!navigator.onLine || message?.status === 'queued') return queueDelete().catch(() => false);
+
+    const { error } = await supabase
+      .from('messages')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', messageId);
+
+    if (error && isNetworkError(error)) return queueDelete().catch(() => false);
+    if (error) return false;
+
+    tombstoneLocally();
+    return true;
+  };
+
+  const replyPreviewFor = async (replyToId: string): Promise<Message['reply_to']> => {
+    const original = messagesRef.current.find((m) => m.id === replyToId);
+    if (original?.deleted_at) return { content: '', sender_name: '', deleted: true };
+    if (original) {
+      return { content: original.content, sender_name: senderName(original.sender_id), deleted: false };
+    }
+
+    const { data } = await supabase
+      .from('messages')
+      .select('content, sender_id, deleted_at, expires_at')
+      .eq('id', replyToId)
+      .maybeSingle();
+
+    if (!data || data.deleted_at || isExpired(data.expires_at)) return { content: '', sender_name: '', deleted: true };
+    return { content: data.content, sender_name: senderName(data.sender_id), deleted: false };
+  };
+
+  // Merge a single realtime change into local state instead of reloading the conversation
+  const applyMessageChange = async (payload: RealtimePostgresChangesPayload<MessageRow>) => {
+    if (payload.eventType === 'DELETE') {
+      const deletedId = payload.old.id;
+      if (!deletedId) return;
+      setMessages((prev) =>
+        prev
+          .filter((m) => m.id !== deletedId)
+          .map((m) =>
+            m.reply_to_id === deletedId
+              ? { ...m, reply_to: { content: '', sender_name: '', deleted: true } }
+              : m
+          )
+      );
+      return;
+    }
+
+    const row = payload.new;
+
+    if (payload.eventType === 'INSERT') {
+      const message: Message = {
+        id: row.id,
+        conversation_id: row.conversation_id,
+        sender_id: row.sender_id,
+        receiver_id: row.receiver_id,
+        content: row.content,
+        kind: row.kind as MessageKind,
+        reply_to_id: row.reply_to_id,
+        is_edited: !!row.is_edited,
+        created_at: row.created_at,
+        delivered_at: row.delivered_at,
+        read_at: row.read_at,
+        deleted_at: row.deleted_at,
+        forwarded_from_name: row.forwarded_from_name,
+        expires_at: row.expires_at,
+        reply_to: row.reply_to_id ? await replyPreviewFor(row.reply_to_id) : undefined,
+        reactions: [],
+      };
+      // Pin notes are posted by the database whenever someone (un)pins a message
+      if (message.kind === 'pin' || message.kind === 'unpin') fetchPins();
+      if (message.kind === 'timer') setDisappearingTimerState(Number(message.content) || null);
+      setMessages((prev) => {
+        const existing = prev.find((m) => m.id === message.id);
+        if (!existing) return [...prev, message].sort(byCreatedAt);
+        // Server echo of our own send: only the server knows the real expiry
+        if (!existing.status || existing.status === 'sent') {
+          return prev.map((m) => (m.id === message.id ? { ...m, expires_at: message.expires_at } : m));
+        }
+        // Echo of an optimistic send: adopt the server timestamp
+        return prev
+          .map((m) =>
+            m.id === message.id
+              ? { ...m, created_at: message.created_at, expires_at: message.expires_at, status: 'sent' as const, error: undefined }
+              : m
+          )
+          .sort(byCreatedAt);
+      });
+      return;
+    }
+
+    setPins((prev) =>
+      row.deleted_at
+        ? prev.filter((p) => p.message_id !== row.id)
+        : prev.map((p) => (p.message_id === row.id ? { ...p, content: row.content } : p))
+    );
+    setMessages((prev) =>
+      (row.deleted_at ? withTombstone(prev, row.id, row.deleted_at) : prev).map((m) => {
+        if (m.id === row.id) {
+          return {
+            ...m,
+            content: row.content,
+            is_edited: !!row.is_edited,
+            delivered_at: row.delivered_at,
+            read_at: row.read_at,
+          };
+        }
+        // Keep quoted snippets in sync when the original is edited
+        if (m.reply_to_id === row.id && m.reply_to && !m.reply_to.deleted) {
+          return { ...m, reply_to: { ...m.reply_to, content: row.content } };
+        }
+        return m;
+      })
+    );
+  };
+
+  const setReactions = (messageId: string, update: (reactions: Reaction[]) => Reaction[]) => {
+    setMessages((prev) =>
+      prev.map((m) => (m.id === messageId ? { ...m, reactions: update(m.reactions ?? []) } : m))
+    );
+  };
+
+  /** Adds the current user's reaction, or removes it if it's already there. */
+  const toggleReaction = async (messageId: string, emoji: string) => {
+    if (!user) return false;
+
+    const message = messagesRef.current.find((m) => m.id === messageId);
+    const own = message?.reactions?.find((r) => r.user_id === user.id && r.emoji === emoji);
+
+    if (own) {
+      setReactions(messageId, (reactions) => reactions.filter((r) => r.id !== own.id));
+      const { error } = await supabase.from('message_reactions').delete().eq('id', own.id);
+      if (error) setReactions(messageId, (reactions) => [...reactions, own]);
+      return !error;
+    }
+
+    const reaction: Reaction = { id: crypto.randomUUID(), user_id: user.id, emoji };
+    setReactions(messageId, (reactions) => [...reactions, reaction]);
+    const { error } = await supabase
+      .from('message_reactions')
+      .insert({ id: reaction.id, message_id: messageId, user_id: user.id, emoji });
+    if (error) setReactions(messageId, (reactions) => reactions.filter((r) => r.id !== reaction.id));
+    return !error;
+  };
+
+  /** Stars the message for the current user only, or removes their star. */
+  const toggleStar = async (messageId: string) => {
+    if (!user) return false;
+
+    const starred = !!messagesRef.current.find((m) => m.id === messageId)?.is_starred;
+    updateMessage(messageId, { is_starred: !starred });
+
+    const { error } = starred
+      ? await supabase.from('starred_messages').delete().eq('user_id', user.id).eq('message_id', messageId)
+      : await supabase.from('starred_messages').insert({ user_id: user.id, message_id: messageId });
+
+    if (error && error.code !== UNIQUE_VIOLATION) {
+      updateMessage(messageId, { is_starred: starred });
+      return false;
+    }
+    return true;
+  };
+
+  /** Sets the conversation's disappearing-messages timer for everyone in it. */
+  const setDisappearingTimer = async (seconds: number | null) => {
+    if (!conversation) return false;
+
+    const { error } = await supabase.rpc('set_message_ttl', {
+      p_conversation_id: conversation.id,
+      p_seconds: seconds,
+    });
+    if (error) return false;
+
+    setDisappearingTimerState(seconds);
+    return true;
+  };
+
+  const pinMessage = async (messageId: string) => {
+    if (!user) return false;
+
+    const { error } = await supabase
+      .from('pinned_messages')
+      .insert({ message_id: messageId, pinned_by: user.id });
+    if (error && error.code !== UNIQUE_VIOLATION) return false;
+
+    await fetchPins();
+    return true;
+  };
+
+  const unpinMessage = async (messageId: string) => {
+    const { error } = await supabase.from('pinned_messages').delete().eq('message_id', messageId);
+    if (error) return false;
+
+    setPins((prev) => prev.filter((p) => p.message_id !== messageId));
+    return true;
+  };
+
+  const applyReactionChange = (payload: RealtimePostgresChangesPayload<ReactionRow>) => {
+    if (payload.eventType === 'DELETE') {
+      // Delete payloads only carry the primary key
+      const reactionId = payload.old.id;
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.reactions?.some((r) => r.id === reactionId)
+            ? { ...m, reactions: m.reactions.filter((r) => r.id !== reactionId) }
+            : m
+        )
+      );
+      return;
+    }
+
+    if (payload.eventType !== 'INSERT') return;
+    const { id, message_id, user_id, emoji } = payload.new;
+    setReactions(message_id, (reactions) =>
+      reactions.some((r) => r.id === id) ? reactions : [...reactions, { id, user_id, emoji }]
+    );
+  };
+
+  const expireMessages = () => {
+    const now = Date.now();
+    const expired = new Set(messagesRef.current.filter((m) => isExpired(m.expires_at, now)).map((m) => m.id));
+    if (expired.size === 0) return;
+
+    setMessages((prev) => withoutExpired(prev, now));
+    setPins((prev) => prev.filter((p) => !expired.has(p.message_id)));
+  };
+
+  /**
+   * Stamps the contact's unread messages up to the given one as read, unless
+   * read receipts are turned off. Call with the newest message on screen.
+   * Groups have no receipts.
+   */
+  const markAsRead = async (lastSeen: Message) => {
+    if (!user || !contact || !profile?.send_read_receipts) return;
+    if (document.visibilityState !== 'visible') return;
+
+    const seenAt = new Date(lastSeen.created_at);
+    const unread = messagesRef.current.filter(
+      (m) => m.sender_id === contact.contact_user_id && !m.read_at && new Date(m.created_at) <= seenAt
+    );
+    if (unread.length === 0) return;
+
+    const upTo = unread[unread.length - 1].created_at;
+    const previous = receiptsUpToRef.current;
+    if (previous && new Date(upTo) <= new Date(previous)) return;
+
+    receiptsUpToRef.current = upTo;
+    const { error } = await supabase.rpc('mark_messages_read', {
+      p_contact_id: contact.contact_user_id,
+      p_up_to: upTo,
+    });
+    if (error) {
+      if (receiptsUpToRef.current === upTo) receiptsUpToRef.current = previous;
+      return;
+    }
+
+    const readAt = new Date().toISOString();
+    const readIds = new Set(unread.map((m) => m.id));
+    setMessages((prev) => prev.map((m) => (readIds.has(m.id) ? { ...m, read_at: readAt } : m)));
+  };
+
+  /**
+   * Moves the user's read position up to the newest message. Call while the
+   * bottom of the conversation is on screen; other devices follow through realtime.
+   */
+  const markConversationRead = async () => {
+    if (!user || !conversation || document.visibilityState !== 'visible') return;
+
+    // Local sends carry a client clock until the server confirms them
+    const latest = [...messagesRef.current].reverse().find((m) => !m.status || m.status === 'sent');
+    const previous = readUpToRef.current;
+    if (!latest || (previous && new Date(latest.created_at) <= new Date(previous))) return;
+
+    readUpToRef.current = latest.created_at;
+    const { error } = await supabase.rpc('mark_conversation_read', {
+      p_conversation_id: conversation.id,
+      p_up_to: latest.created_at,
+    });
+    if (error && readUpToRef.current === latest.created_at) readUpToRef.current = previous;
+  };
+
+  // The effects below rerun only when the conversation changes, always with the latest handlers
+  const handlersRef = useRef({ fetchMessages, applyMessageChange, applyReactionChange });
+  handlersRef.current = { fetchMessages, applyMessageChange, applyReactionChange };
+  const conversationId = conversation?.id;
+
+  useEffect(() => {
+    handlersRef.current.fetchMessages();
+  }, [user, conversationId]);
+
+  // Hide disappearing messages the moment they expire rather than when the server purges them
+  useEffect(() => {
+    const expiries = messages.flatMap((m) => (m.expires_at ? [new Date(m.expires_at).getTime()] : []));
+    if (expiries.length === 0) return;
+
+    const timeout = setTimeout(expireMessages, Math.max(0, Math.min(...expiries) - Date.now()));
+    return () => clearTimeout(timeout);
+  }, [messages]);
+
+  useEffect(() => {
+    if (!user || !conversationId) return;
+
+    const handleMessageChange = (payload: RealtimePostgresChangesPayload<MessageRow>) =>
+      handlersRef.current.applyMessageChange(payload);
+    const handleReactionChange = (payload: RealtimePostgresChangesPayload<ReactionRow>) =>
+      handlersRef.current.applyReactionChange(payload);
+
+    const channel = supabase
+      .channel(`messages:${user.id}:${conversationId}`)
+      .on<MessageRow>(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'messages',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        handleMessageChange
+      )
+      // DELETE events can't be filtered server-side; unknown ids are ignored
+      .on<MessageRow>(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'messages',
+        },
+        handleMessageChange
+      )
+      // Reactions carry no conversation column; RLS scopes them to our own conversations
+      // and changes for messages that aren't loaded are no-ops
+      .on<ReactionRow>(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'message_reactions',
+        },
+        handleReactionChange
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, conversationId]);
+
+  useEffect(() => {
+    return subscribeToOutbox((event) => {
+      if (event.entry.kind !== 'send') return;
+      const messageId = event.entry.message_id;
+
+      if (event.type === 'flushed') {
+        markSent(messageId, event.created_at);
+      } else if (event.type === 'rejected') {
+        updateMessage(messageId, { status: 'failed', error: event.error });
+      }
+    });
+  }, []);
+
+  return {
+    messages,
+    pins,
+    loadedConversationId,
+    firstUnreadId,
+    markAsRead,
+    markConversationRead,
+    hasOlderMessages,
+    loadingOlder,
+    loadOlderMessages,
+    loadUntilMessage,
+    sendMessage,
+    retryMessage,
+    discardMessage,
+    editMessage,
+    deleteMessage,
+    toggleReaction,
+    toggleStar,
+    disappearingTimer,
+    setDisappearingTimer,
+    pinMessage,
+    unpinMessage,
+  };
+}
@@ -0,0 +1,185 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import type { ConversationPreview } from '@/types/chat';
+
+// Matches the trimming in get_conversation_previews
+const SNIPPET_LENGTH = 200;
+
+/**
+ * The latest message and unread count of each of the user's conversations,
+ * kept current as messages arrive. Messages arriving in the open conversation
+ * aren't counted; it moves its read position itself.
+ */
+export function useConversationPreviews(activeConversationId: string | null) {
+  const { user } = useAuth();
+  const [previews, setPreviews] = useState<ConversationPreview[]>([]);
+  const previewsRef = useRef(previews);
+  previewsRef.current = previews;
+  const activeConversationIdRef = useRef(activeConversationId);
+  activeConversationIdRef.current = activeConversationId;
+
+  useEffect(() => {
+    if (!user) {
+      setPreviews([]);
+      return;
+    }
+
+    let cancelled = false;
+    const fetchPreviews = async () => {
+      const { data, error } = await supabase.rpc('get_conversation_previews');
+      if (!cancelled && !error && data) setPreviews(data);
+    };
+
+    const applyMessageChange = (payload: {
+      eventType: string;
+      new: Record<string, unknown>;
+      old: Record<string, unknown>;
+    }) => {
+      if (payload.eventType === 'DELETE') {
+        // Only the id comes through; the conversation's previous message takes over
+        if (previewsRef.current.some((p) => p.message_id === payload.old.id)) fetchPreviews();
+        return;
+      }
+
+      const row = payload.new;
+      const preview = previewsRef.current.find((p) => p.conversation_id === row.conversation_id);
+      // A conversation we haven't seen yet, e.g. a contact's first message
+      if (!preview) {
+        fetchPreviews();
+        return;
+      }
+
+      const deleted = row.deleted_at !== null;
+      if (payload.eventType === 'UPDATE') {
+        // Most updates are receipts and edits of older messages
+        if (preview.message_id !== row.id && !deleted) return;
+        // Deleting someone else's unread message takes it off the count
+        const unread =
+          row.sender_id !== user.id &&
+          preview.unread_count > 0 &&
+          (!preview.last_read_at || new Date(row.created_at as string) > new Date(preview.last_read_at));
+        if (deleted && unread) {
+          fetchPreviews();
+          return;
+        }
+        if (preview.message_id !== row.id) return;
+      }
+
+      const counted =
+        !deleted &&
+        row.sender_id !== user.id &&
+        row.conversation_id !== activeConversationIdRef.current;
+      const content = deleted ? '' : (row.content as string).slice(0, SNIPPET_LENGTH);
+
+      setPreviews((prev) =>
+        prev.map((p) => {
+          if (p.conversation_id !== row.conversation_id) return p;
+          if (payload.eventType === 'UPDATE') {
+            return p.message_id === row.id ? { ...p, content, deleted } : p;
+          }
+          return {
+            ...p,
+            message_id: row.id as string,
+            sender_id: row.sender_id as string,
+            content,
+            deleted,
+            expires_at: row.expires_at as string | null,
+            last_activity_at: row.created_at as string,
+            unread_count: counted ? p.unread_count + 1 : p.unread_count,
+          };
+        })
+      );
+    };
+
+    const applyReadChange = (payload: { eventType: string; new: Record<string, unknown> }) => {
+      if (payload.eventType === 'DELETE') return;
+
+      const { conversation_id, last_read_at } = payload.new as { conversation_id: string; last_read_at: string };
+      const preview = previewsRef.current.find((p) => p.conversation_id === conversation_id);
+      if (!preview || preview.last_read_at === last_read_at) return;
+
+      // Read up to the latest message, the usual case; anything short of it needs a recount
+      if (preview.message_id && new Date(last_read_at) < new Date(preview.last_activity_at)) {
+        fetchPreviews();
+        return;
+      }
+      setPreviews((prev) =>
+        prev.map((p) => (p.conversation_id === conversation_id ? { ...p, last_read_at, unread_count: 0 } : p))
+      );
+    };
+
+    fetchPreviews();
+
+    const channel = supabase
+      .channel(`previews:${user.id}`)
+      // Pins and timer changes never show up in previews
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: 'kind=eq.text' },
+        applyMessageChange
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages', filter: 'kind=eq.text' },
+        applyMessageChange
+      )
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'messages' }, applyMessageChange)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'conversation_members',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => fetchPreviews()
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'hidden_messages',
+          filter: `user_id=eq.${user.id}`,
+        },
+        () => fetchPreviews()
+      )
+      // Read positions move on this device or another one
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'conversation_reads',
+          filter: `user_id=eq.${user.id}`,
+        },
+        applyReadChange
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  // Swap in the previous message once the latest one disappears
+  useEffect(() => {
+    if (!user) return;
+
+    const nextExpiry = Math.min(
+      ...previews.filter((p) => p.expires_at).map((p) => new Date(p.expires_at!).getTime())
+    );
+    if (!Number.isFinite(nextExpiry)) return;
+
+    const timeout = setTimeout(async () => {
+      const { data, error } = await supabase.rpc('get_conversation_previews');
+      if (!error && data) setPreviews(data);
+    }, Math.max(nextExpiry - Date.now(), 0) + 1000);
+
+    return () => clearTimeout(timeout);
+  }, [user, previews]);
+
+  return previews;
+}
@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { loadConversationStates, updateConversationState } from '@/lib/conversations';
+import type { ConversationState } from '@/types/chat';
+
+type ConversationStates = Record<string, ConversationState>;
+
+const byConversation = (states: ConversationState[]) =>
+  Object.fromEntries(states.map((s) => [s.conversation_id, s]));
+
+/**
+ * The user's pinned, muted and archived conversations, keyed by conversation id.
+ * Follows changes from other devices and the server unarchiving on new messages.
+ */
+export function useConversationStates() {
+  const { user } = useAuth();
+  const [states, setStates] = useState<ConversationStates>({});
+
+  useEffect(() => {
+    if (!user) {
+      setStates({});
+      return;
+    }
+
+    let cancelled = false;
+    loadConversationStates(user.id).then((result) => {
+      if (!cancelled && result) setStates(byConversation(result));
+    });
+
+    const channel = supabase
+      .channel(`conversation-states:${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'conversation_states',
+          filter: `user_id=eq.${user.id}`,
+        },
+        (payload) => {
+          if (payload.eventType === 'DELETE') return;
+          const { conversation_id, pinned_at, muted, muted_until, archived_at } = payload.new as ConversationState;
+          setStates((prev) => ({
+            ...prev,
+            [conversation_id]: { conversation_id, pinned_at, muted, muted_until, archived_at },
+          }));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+
+  /** Resolves to false if the change couldn't be saved. */
+  const updateState = async (
+    conversationId: string,
+    changes: Partial<Omit<ConversationState, 'conversation_id'>>
+  ) => {
+    if (!user) return false;
+    const saved = await updateConversationState(user.id, conversationId, changes);
+    if (!saved) return false;
+    setStates((prev) => ({ ...prev, [conversationId]: saved }));
+    return true;
+  };
+
+  return { states, updateState };
+}
@@ -0,0 +1,43 @@
+import { useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { useOnlineStatus } from '@/hooks/use-online-status';
+
+/**
+ * Marks incoming messages as delivered as soon as they reach this client,
+ * whichever conversation is open.
+ */
+export function useDeliveryReceipts() {
+  const { user } = useAuth();
+  const isOnline = useOnlineStatus();
+
+  useEffect(() => {
+    if (!user || !isOnline) return;
+
+    // Best effort: anything missed is picked up by the next message or reconnect
+    const markDelivered = async () => {
+      await supabase.rpc('mark_messages_delivered');
+    };
+
+    // Catch up on whatever arrived while we were away
+    markDelivered();
+
+    const channel = supabase
+      .channel(`deliveries:${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `receiver_id=eq.${user.id}`,
+        },
+        markDelivered
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, isOnline]);
+}
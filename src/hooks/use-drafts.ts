@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { loadDrafts, subscribeToDrafts, type Drafts } from '@/lib/drafts';
+
+/** All of the current user's drafts, keyed by contact user id. */
+export function useDrafts() {
+  const { user } = useAuth();
+  const [drafts, setDrafts] = useState<Drafts>({});
+
+  useEffect(() => {
+    if (!user) {
+      setDrafts({});
+      return;
+    }
+
+    const refresh = () => setDrafts(loadDrafts(user.id));
+    // Drafts written in another tab arrive through the storage event
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === null || e.key.startsWith('pagion-drafts:')) refresh();
+    };
+
+    refresh();
+    const unsubscribe = subscribeToDrafts(refresh);
+    window.addEventListener('storage', onStorage);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('storage', onStorage);
+    };
+  }, [user]);
+
+  return drafts;
+}
@@ -0,0 +1,44 @@
+import { useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/hooks/use-toast';
+import { flushOutbox, listOutbox, subscribeToOutbox } from '@/lib/outbox';
+import { useOnlineStatus } from '@/hooks/use-online-status';
+
+const RETRY_INTERVAL = 15000; // Flaky connections don't always fire an "online" event
+
+/** Replays the offline outbox whenever the connection comes back. */
+export function useOutboxSync() {
+  const { user } = useAuth();
+  const isOnline = useOnlineStatus();
+
+  useEffect(() => {
+    if (!user || !isOnline) return;
+
+    const flush = () => {
+      flushOutbox(user.id).catch(() => {
+        // IndexedDB unavailable (e.g. private mode); nothing was queued
+      });
+    };
+
+    flush();
+    const interval = setInterval(async () => {
+      const entries = await listOutbox(user.id).catch(() => []);
+      if (entries.length > 0) flush();
+    }, RETRY_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [user, isOnline]);
+
+  useEffect(() => {
+    return subscribeToOutbox((event) => {
+      if (event.type !== 'rejected' || event.entry.kind === 'send') return;
+      toast({
+        title: 'Error',
+        description: event.entry.kind === 'edit'
+          ? 'A queued edit could not be applied.'
+          : 'A queued delete could not be applied.',
+        variant: 'destructive',
+      });
+    });
+  }, []);
+}
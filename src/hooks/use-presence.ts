@@ -0,0 +1,116 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNowStrict } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { startTracking, stopTracking, subscribeToPresence } from '@/lib/presence';
+
+const LAST_SEEN_INTERVAL = 60000;
+// Only bounds how stale "last seen" gets if the app never gets to say goodbye
+const LAST_SEEN_HEARTBEAT = 5 * 60000;
+
+/**
+ * Marks the user online while the app is open and records when they were
+ * last seen for when they aren't. Who gets to see either is decided by the
+ * server.
+ */
+export function usePresenceSync() {
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const touch = () => {
+      supabase.rpc('touch_last_seen');
+    };
+
+    startTracking(user.id);
+    touch();
+    const interval = setInterval(() => {
+      if (document.visibilityState === 'visible') touch();
+    }, LAST_SEEN_HEARTBEAT);
+    // Record the moment the user leaves rather than the last heartbeat
+    document.addEventListener('visibilitychange', touch);
+    window.addEventListener('pagehide', touch);
+
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', touch);
+      window.removeEventListener('pagehide', touch);
+      stopTracking();
+      touch();
+    };
+  }, [user]);
+}
+
+/** Contact user ids that are currently online. */
+export function useOnlineContacts(contactUserIds: string[]) {
+  const { user } = useAuth();
+  const [online, setOnline] = useState<Set<string>>(new Set());
+  const key = contactUserIds.join(',');
+
+  useEffect(() => {
+    if (!user || !key) return;
+
+    const unsubscribes = key.split(',').map((contactUserId) =>
+      subscribeToPresence(contactUserId, (isOnline) => {
+        setOnline((prev) => {
+          if (prev.has(contactUserId) === isOnline) return prev;
+          const next = new Set(prev);
+          if (isOnline) next.add(contactUserId);
+          else next.delete(contactUserId);
+          return next;
+        });
+      })
+    );
+
+    return () => {
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      setOnline(new Set());
+    };
+  }, [user, key]);
+
+  return online;
+}
+
+/**
+ * Presence label for a contact: "Online", "Last seen 5 minutes ago", or null
+ * when they hide their presence from the user.
+ */
+export function useContactPresence(contactUserId: string | null) {
+  const online = useOnlineContacts(contactUserId ? [contactUserId] : []);
+  const isOnline = !!contactUserId && online.has(contactUserId);
+  const [lastSeenAt, setLastSeenAt] = useState<string | null>(null);
+  const [, setTick] = useState(0);
+
+  // Refetched when the contact goes offline, since that's when it last changed
+  useEffect(() => {
+    setLastSeenAt(null);
+    if (!contactUserId || isOnline) return;
+    let cancelled = false;
+
+    (async () => {
+      const { data } = await supabase.rpc('get_last_seen', { p_user_ids: [contactUserId] });
+      if (!cancelled) setLastSeenAt(data?.[0]?.last_seen_at ?? null);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [contactUserId, isOnline]);
+
+  // Keep the relative time current
+  useEffect(() => {
+    if (!lastSeenAt) return;
+    const interval = setInterval(() => setTick((tick) => tick + 1), LAST_SEEN_INTERVAL);
+    return () => clearInterval(interval);
+  }, [lastSeenAt]);
+
+  return {
+    isOnline,
+    label: isOnline
+      ? 'Online'
+      : lastSeenAt
+        ? `Last seen ${formatDistanceToNowStrict(new Date(lastSeenAt), { addSuffix: true })}`
+        : null,
+  };
+}
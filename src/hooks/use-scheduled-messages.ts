@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { hasPassed } from '@/lib/schedule';
+import type { Conversation, ScheduledMessage } from '@/types/chat';
+
+type ScheduledRow = Tables<'scheduled_messages'>;
+
+const bySendAt = (a: ScheduledMessage, b: ScheduledMessage) =>
+  new Date(a.send_at).getTime() - new Date(b.send_at).getTime();
+
+const toScheduled = ({ id, conversation_id, receiver_id, content, reply_to_id, send_at }: ScheduledRow): ScheduledMessage => ({
+  id,
+  conversation_id,
+  receiver_id,
+  content,
+  reply_to_id,
+  send_at,
+});
+
+/**
+ * The current user's pending "send later" messages in one conversation. The
+ * server sends and removes them once they're due.
+ */
+export function useScheduledMessages(conversation: Conversation | null) {
+  const { user } = useAuth();
+  const conversationId = conversation?.id ?? null;
+  const [scheduled, setScheduled] = useState<ScheduledMessage[]>([]);
+
+  useEffect(() => {
+    setScheduled([]);
+    if (!user || !conversationId) return;
+    let cancelled = false;
+
+    (async () => {
+      const { data, error } = await supabase
+        .from('scheduled_messages')
+        .select('id, conversation_id, receiver_id, content, reply_to_id, send_at')
+        .eq('sender_id', user.id)
+        .eq('conversation_id', conversationId)
+        .order('send_at', { ascending: true });
+      if (!cancelled && !error && data) setScheduled(data);
+    })();
+
+    const applyChange = (payload: RealtimePostgresChangesPayload<ScheduledRow>) => {
+      if (payload.eventType === 'DELETE') {
+        // Sent or cancelled, possibly from another tab; delete payloads only carry the primary key
+        setScheduled((prev) => prev.filter((s) => s.id !== payload.old.id));
+        return;
+      }
+      if (payload.new.conversation_id !== conversationId) return;
+      const next = toScheduled(payload.new);
+      setScheduled((prev) => [...prev.filter((s) => s.id !== next.id), next].sort(bySendAt));
+    };
+
+    const channel = supabase
+      .channel(`scheduled:${user.id}:${conversationId}`)
+      .on<ScheduledRow>(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'scheduled_messages',
+          filter: `sender_id=eq.${user.id}`,
+        },
+        applyChange
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [user, conversationId]);
+
+  const scheduleMessage = async (content: string, sendAt: Date, replyToId: string | null) => {
+    if (!user || !conversation || hasPassed(sendAt)) return false;
+
+    const { data, error } = await supabase
+      .from('scheduled_messages')
+      .insert({
+        conversation_id: conversation.id,
+        sender_id: user.id,
+        receiver_id: conversation.contact?.contact_user_id ?? null,
+        content,
+        reply_to_id: replyToId,
+        send_at: sendAt.toISOString(),
+      })
+      .select('*')
+      .single();
+    if (error || !data) return false;
+
+    const next = toScheduled(data);
+    setScheduled((prev) => [...prev.filter((s) => s.id !== next.id), next].sort(bySendAt));
+    return true;
+  };
+
+  /** Fails if the message already went out. */
+  const updateScheduledMessage = async (id: string, content: string, sendAt: Date) => {
+    if (hasPassed(sendAt)) return false;
+
+    const { data, error } = await supabase
+      .from('scheduled_messages')
+      .update({ content, send_at: sendAt.toISOString() })
+      .eq('id', id)
+      .select('*')
+      .maybeSingle();
+    if (error || !data) return false;
+
+    const next = toScheduled(data);
+    setScheduled((prev) => prev.map((s) => (s.id === id ? next : s)).sort(bySendAt));
+    return true;
+  };
+
+  const cancelScheduledMessage = async (id: string) => {
+    const { data, error } = await supabase
+      .from('scheduled_messages')
+      .delete()
+      .eq('id', id)
+      .select('id');
+    if (error || !data || data.length === 0) return false;
+
+    setScheduled((prev) => prev.filter((s) => s.id !== id));
+    return true;
+  };
+
+  return {
+    scheduled,
+    scheduleMessage,
+    updateScheduledMessage,
+    cancelScheduledMessage,
+  };
+}
@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { sendTyping, subscribeToTyping } from '@/lib/typing';
+
+// Treat the user as done typing after this long without a keystroke
+const TYPING_IDLE = 4000;
+
+/** Contact user ids that are currently typing to the user. */
+export function useTypingContacts(contactUserIds: string[]) {
+  const { user } = useAuth();
+  const [typing, setTyping] = useState<Set<string>>(new Set());
+  const key = contactUserIds.join(',');
+
+  useEffect(() => {
+    if (!user || !key) return;
+
+    const unsubscribes = key.split(',').map((contactUserId) =>
+      subscribeToTyping(user.id, contactUserId, (isTyping) => {
+        setTyping((prev) => {
+          if (prev.has(contactUserId) === isTyping) return prev;
+          const next = new Set(prev);
+          if (isTyping) next.add(contactUserId);
+          else next.delete(contactUserId);
+          return next;
+        });
+      })
+    );
+
+    return () => {
+      unsubscribes.forEach((unsubscribe) => unsubscribe());
+      setTyping(new Set());
+    };
+  }, [user, key]);
+
+  return typing;
+}
+
+/** Typing state of the open conversation, plus notifiers for the composer. */
+export function useConversationTyping(contactUserId: string | null) {
+  const { user } = useAuth();
+  const typingContacts = useTypingContacts(contactUserId ? [contactUserId] : []);
+  const idleTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const stopTyping = () => {
+    if (idleTimeoutRef.current) clearTimeout(idleTimeoutRef.current);
+    idleTimeoutRef.current = null;
+    if (user && contactUserId) sendTyping(user.id, contactUserId, false);
+  };
+
+  /** Call with the composer text on every change. */
+  const notifyTyping = (text: string) => {
+    if (!user || !contactUserId) return;
+    if (!text.trim()) {
+      stopTyping();
+      return;
+    }
+
+    sendTyping(user.id, contactUserId, true);
+    if (idleTimeoutRef.current) clearTimeout(idleTimeoutRef.current);
+    idleTimeoutRef.current = setTimeout(stopTyping, TYPING_IDLE);
+  };
+
+  // Switching conversations or leaving the chat ends typing in the old one
+  useEffect(() => {
+    if (!user || !contactUserId) return;
+    return () => {
+      if (idleTimeoutRef.current) clearTimeout(idleTimeoutRef.current);
+      idleTimeoutRef.current = null;
+      sendTyping(user.id, contactUserId, false);
+    };
+  }, [user, contactUserId]);
+
+  return {
+    isContactTyping: !!contactUserId && typingContacts.has(contactUserId),
+    notifyTyping,
+    stopTyping,
+  };
+}
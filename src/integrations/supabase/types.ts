@@ -18,59 +18,331 @@ export type Database = {
         Row: {
           contact_user_id: string
           created_at: string
+          hide_presence: boolean
           id: string
           user_id: string
         }
         Insert: {
           contact_user_id: string
           created_at?: string
+          hide_presence?: boolean
           id?: string
           user_id: string
         }
         Update: {
           contact_user_id?: string
           created_at?: string
+          hide_presence?: boolean
           id?: string
           user_id?: string
         }
         Relationships: []
       }
+      conversation_members: {
+        Row: {
+          conversation_id: string
+          joined_at: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          joined_at?: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          joined_at?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_members_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversation_reads: {
+        Row: {
+          conversation_id: string
+          last_read_at: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          last_read_at: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          last_read_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_reads_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversation_states: {
+        Row: {
+          archived_at: string | null
+          conversation_id: string
+          muted: boolean
+          muted_until: string | null
+          pinned_at: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          archived_at?: string | null
+          conversation_id: string
+          muted?: boolean
+          muted_until?: string | null
+          pinned_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          archived_at?: string | null
+          conversation_id?: string
+          muted?: boolean
+          muted_until?: string | null
+          pinned_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_states_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      conversations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          join_code: string | null
+          message_ttl_seconds: number | null
+          title: string | null
+          type: string
+          updated_at: string
+          user_high: string | null
+          user_low: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          join_code?: string | null
+          message_ttl_seconds?: number | null
+          title?: string | null
+          type: string
+          updated_at?: string
+          user_high?: string | null
+          user_low?: string | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          join_code?: string | null
+          message_ttl_seconds?: number | null
+          title?: string | null
+          type?: string
+          updated_at?: string
+          user_high?: string | null
+          user_low?: string | null
+        }
+        Relationships: []
+      }
+      hidden_messages: {
+        Row: {
+          created_at: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hidden_messages_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_edits: {
+        Row: {
+          content: string
+          edited_at: string
+          id: string
+          message_id: string
+        }
+        Insert: {
+          content: string
+          edited_at?: string
+          id?: string
+          message_id: string
+        }
+        Update: {
+          content?: string
+          edited_at?: string
+          id?: string
+          message_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_edits_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_reactions: {
+        Row: {
+          created_at: string
+          emoji: string
+          id: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          emoji: string
+          id?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          emoji?: string
+          id?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_reactions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
           content: string
+          conversation_id: string
           created_at: string
+          deleted_at: string | null
+          delivered_at: string | null
+          expires_at: string | null
+          forwarded_from_message_id: string | null
+          forwarded_from_name: string | null
           id: string
           is_edited: boolean | null
-          receiver_id: string
+          kind: string
+          read_at: string | null
+          receiver_id: string | null
           reply_to_id: string | null
           sender_id: string
           updated_at: string
         }
         Insert: {
           content: string
+          conversation_id: string
           created_at?: string
+          deleted_at?: string | null
+          delivered_at?: string | null
+          expires_at?: string | null
+          forwarded_from_message_id?: string | null
+          forwarded_from_name?: string | null
           id?: string
           is_edited?: boolean | null
-          receiver_id: string
+          kind?: string
+          read_at?: string | null
+          receiver_id?: string | null
           reply_to_id?: string | null
           sender_id: string
           updated_at?: string
         }
         Update: {
           content?: string
+          conversation_id?: string
           created_at?: string
+          deleted_at?: string | null
+          delivered_at?: string | null
+          expires_at?: string | null
+          forwarded_from_message_id?: string | null
+          forwarded_from_name?: string | null
           id?: string
           is_edited?: boolean | null
-          receiver_id?: string
+          kind?: string
+          read_at?: string | null
+          receiver_id?: string | null
           reply_to_id?: string | null
           sender_id?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "messages_reply_to_id_fkey"
-            columns: ["reply_to_id"]
+            foreignKeyName: "messages_conversation_id_fkey"
+            columns: ["conversation_id"]
             isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pinned_messages: {
+        Row: {
+          created_at: string
+          message_id: string
+          pinned_by: string
+        }
+        Insert: {
+          created_at?: string
+          message_id: string
+          pinned_by: string
+        }
+        Update: {
+          created_at?: string
+          message_id?: string
+          pinned_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pinned_messages_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: true
             referencedRelation: "messages"
             referencedColumns: ["id"]
           },
@@ -82,6 +354,8 @@ export type Database = {
           created_at: string
           id: string
           name: string
+          presence_visibility: string
+          send_read_receipts: boolean
           uid: string
           updated_at: string
           user_id: string
@@ -91,6 +365,8 @@ export type Database = {
           created_at?: string
           id?: string
           name: string
+          presence_visibility?: string
+          send_read_receipts?: boolean
           uid?: string
           updated_at?: string
           user_id: string
@@ -100,18 +376,234 @@ export type Database = {
           created_at?: string
           id?: string
           name?: string
+          presence_visibility?: string
+          send_read_receipts?: boolean
           uid?: string
           updated_at?: string
           user_id?: string
         }
         Relationships: []
       }
+      scheduled_messages: {
+        Row: {
+          content: string
+          conversation_id: string
+          created_at: string
+          id: string
+          receiver_id: string | null
+          reply_to_id: string | null
+          send_at: string
+          sender_id: string
+          updated_at: string
+        }
+        Insert: {
+          content: string
+          conversation_id: string
+          created_at?: string
+          id?: string
+          receiver_id?: string | null
+          reply_to_id?: string | null
+          send_at: string
+          sender_id: string
+          updated_at?: string
+        }
+        Update: {
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          id?: string
+          receiver_id?: string | null
+          reply_to_id?: string | null
+          send_at?: string
+          sender_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      starred_messages: {
+        Row: {
+          created_at: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "starred_messages_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_presence: {
+        Row: {
+          last_seen_at: string
+          user_id: string
+        }
+        Insert: {
+          last_seen_at?: string
+          user_id: string
+        }
+        Update: {
+          last_seen_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      can_post_about_message: {
+        Args: { p_message_id: string }
+        Returns: boolean
+      }
+      can_post_to_conversation: {
+        Args: { p_conversation_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      can_see_presence_of: { Args: { p_user_id: string }; Returns: boolean }
+      can_send_typing_to: { Args: { p_user_id: string }; Returns: boolean }
+      create_channel: { Args: { p_title: string }; Returns: string }
+      create_group: {
+        Args: { p_member_ids: string[]; p_title: string }
+        Returns: string
+      }
+      dispatch_scheduled_messages: { Args: never; Returns: number }
       generate_avatar_color: { Args: never; Returns: string }
+      get_conversation_page: {
+        Args: {
+          p_before_created_at?: string
+          p_before_id?: string
+          p_conversation_id: string
+          p_limit?: number
+        }
+        Returns: {
+          content: string
+          created_at: string
+          deleted_at: string
+          delivered_at: string
+          expires_at: string
+          forwarded_from_name: string
+          id: string
+          is_edited: boolean
+          is_starred: boolean
+          kind: string
+          reactions: Json
+          read_at: string
+          receiver_id: string
+          reply_to_content: string
+          reply_to_deleted: boolean
+          reply_to_id: string
+          reply_to_sender_id: string
+          reply_to_sender_name: string
+          sender_id: string
+          updated_at: string
+        }[]
+      }
+      get_conversation_pins: {
+        Args: { p_conversation_id: string }
+        Returns: {
+          content: string
+          created_at: string
+          message_id: string
+          pinned_at: string
+          pinned_by: string
+          sender_id: string
+        }[]
+      }
+      get_conversation_previews: {
+        Args: never
+        Returns: {
+          contact_user_id: string
+          content: string
+          conversation_id: string
+          deleted: boolean
+          expires_at: string
+          last_activity_at: string
+          last_read_at: string
+          message_id: string
+          sender_id: string
+          unread_count: number
+        }[]
+      }
+      get_direct_conversation: {
+        Args: { p_contact_id: string }
+        Returns: string
+      }
+      get_last_seen: {
+        Args: { p_user_ids: string[] }
+        Returns: {
+          last_seen_at: string
+          user_id: string
+        }[]
+      }
+      get_read_position: {
+        Args: { p_conversation_id: string }
+        Returns: {
+          first_unread_id: string
+          last_read_at: string
+        }[]
+      }
+      get_starred_messages: {
+        Args: never
+        Returns: {
+          contact_user_id: string
+          content: string
+          conversation_id: string
+          conversation_title: string
+          conversation_type: string
+          created_at: string
+          forwarded_from_name: string
+          message_id: string
+          sender_id: string
+          starred_at: string
+        }[]
+      }
+      get_subscriber_counts: {
+        Args: never
+        Returns: {
+          conversation_id: string
+          subscriber_count: number
+        }[]
+      }
+      is_conversation_member: {
+        Args: { p_conversation_id: string }
+        Returns: boolean
+      }
+      is_message_participant: {
+        Args: { p_message_id: string }
+        Returns: boolean
+      }
+      join_channel: { Args: { p_code: string }; Returns: string }
+      lookup_channel_by_code: {
+        Args: { p_code: string }
+        Returns: {
+          id: string
+          subscriber_count: number
+          title: string
+        }[]
+      }
       lookup_profile_by_uid: {
         Args: { p_uid: string }
         Returns: {
@@ -119,7 +611,26 @@ export type Database = {
           user_id: string
         }[]
       }
+      mark_conversation_read: {
+        Args: { p_conversation_id: string; p_up_to: string }
+        Returns: undefined
+      }
+      mark_messages_delivered: { Args: never; Returns: undefined }
+      mark_messages_read: {
+        Args: { p_contact_id: string; p_up_to: string }
+        Returns: undefined
+      }
+      purge_expired_messages: { Args: never; Returns: number }
       regenerate_profile_uid: { Args: { p_user_id: string }; Returns: string }
+      set_channel_admin: {
+        Args: { p_admin: boolean; p_conversation_id: string; p_user_id: string }
+        Returns: undefined
+      }
+      set_message_ttl: {
+        Args: { p_conversation_id: string; p_seconds: number }
+        Returns: undefined
+      }
+      touch_last_seen: { Args: never; Returns: undefined }
     }
     Enums: {
       [_ in never]: never
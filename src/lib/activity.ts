@@ -0,0 +1,19 @@
+import { differenceInCalendarDays, differenceInMinutes, format, isSameYear } from 'date-fns';
+
+/**
+ * Compact relative time for conversation rows: "now", minutes and hours for
+ * the last day, then "Yesterday", the weekday within a week, and a date after that.
+ */
+export function formatActivityTime(date: string | Date, now = new Date()) {
+  const then = new Date(date);
+  const minutes = differenceInMinutes(now, then);
+
+  if (minutes < 1) return 'now';
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 24 * 60 && differenceInCalendarDays(now, then) === 0) return `${Math.floor(minutes / 60)}h`;
+
+  const days = differenceInCalendarDays(now, then);
+  if (days <= 1) return 'Yesterday';
+  if (days < 7) return format(then, 'EEE');
+  return isSameYear(now, then) ? format(then, 'MMM d') : format(then, 'MMM d, yyyy');
+}
@@ -0,0 +1,33 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Contact } from '@/types/chat';
+
+/** The user's contacts with their profiles, or null if either query fails. */
+export async function loadContacts(userId: string): Promise<Contact[] | null> {
+  // First fetch contacts
+  const { data: contactsData, error: contactsError } = await supabase
+    .from('contacts')
+    .select('id, contact_user_id')
+    .eq('user_id', userId);
+
+  if (contactsError || !contactsData) return null;
+  if (contactsData.length === 0) return [];
+
+  // Then fetch profiles for those contacts
+  const contactUserIds = contactsData.map(c => c.contact_user_id);
+  const { data: profilesData, error: profilesError } = await supabase
+    .from('profiles')
+    .select('user_id, name, uid, avatar_color')
+    .in('user_id', contactUserIds);
+
+  if (profilesError || !profilesData) return null;
+
+  // Combine the data
+  return contactsData.map((c) => {
+    const profile = profilesData.find(p => p.user_id === c.contact_user_id);
+    return {
+      id: c.id,
+      contact_user_id: c.contact_user_id,
+      profile: profile || { name: 'Unknown', uid: '????????', avatar_color: '#888888' },
+    };
+  });
+}
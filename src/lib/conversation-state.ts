@@ -0,0 +1,15 @@
+import type { ConversationState } from '@/types/chat';
+
+/** Matches the limit enforced by the database. */
+export const PINNED_LIMIT = 5;
+
+/** How long a conversation can be muted for; null mutes until the user unmutes it. */
+export const MUTE_DURATIONS: { seconds: number | null; label: string }[] = [
+  { seconds: 3600, label: 'For 1 hour' },
+  { seconds: 28800, label: 'For 8 hours' },
+  { seconds: 604800, label: 'For 1 week' },
+  { seconds: null, label: 'Until I turn it back on' },
+];
+
+export const isMuted = (state: ConversationState | undefined, now = Date.now()) =>
+  !!state?.muted && (!state.muted_until || new Date(state.muted_until).getTime() > now);
@@ -0,0 +1,154 @@
+import { supabase } from '@/integrations/supabase/client';
+import type {
+  Contact,
+  Conversation,
+  ConversationMember,
+  ConversationRole,
+  ConversationState,
+  ConversationType,
+} from '@/types/chat';
+
+const UNKNOWN_PROFILE = { name: 'Unknown', uid: '????????', avatar_color: '#888888' };
+
+export const conversationName = (conversation: Conversation) =>
+  conversation.title ?? conversation.contact?.profile.name ?? 'Unknown';
+
+/** Channel subscribers can only read; everyone can post elsewhere. */
+export const canPost = (conversation: Conversation, userId: string | undefined) =>
+  conversation.type !== 'channel' ||
+  conversation.members.some((m) => m.user_id === userId && (m.role === 'owner' || m.role === 'admin'));
+
+/** The direct conversation with a contact, created on first use. Null if the request fails. */
+export async function openDirectConversation(contact: Contact): Promise<Conversation | null> {
+  const { data, error } = await supabase.rpc('get_direct_conversation', {
+    p_contact_id: contact.contact_user_id,
+  });
+  if (error || !data) return null;
+
+  return { id: data, type: 'direct', title: null, contact, members: [], join_code: null, subscriber_count: 0 };
+}
+
+/** The user's groups and channels with the members they can see, or null if any query fails. */
+export async function loadGroups(userId: string): Promise<Conversation[] | null> {
+  const { data: membershipsData, error: membershipsError } = await supabase
+    .from('conversation_members')
+    .select('conversation_id')
+    .eq('user_id', userId);
+
+  if (membershipsError || !membershipsData) return null;
+  if (membershipsData.length === 0) return [];
+
+  const { data: conversationsData, error: conversationsError } = await supabase
+    .from('conversations')
+    .select('id, type, title, join_code')
+    .in('id', membershipsData.map((m) => m.conversation_id))
+    .neq('type', 'direct')
+    .order('title');
+
+  if (conversationsError || !conversationsData) return null;
+  if (conversationsData.length === 0) return [];
+
+  const { data: membersData, error: membersError } = await supabase
+    .from('conversation_members')
+    .select('conversation_id, user_id, role')
+    .in('conversation_id', conversationsData.map((c) => c.id))
+    .order('joined_at');
+
+  if (membersError || !membersData) return null;
+
+  const { data: profilesData, error: profilesError } = await supabase
+    .from('profiles')
+    .select('user_id, name, uid, avatar_color')
+    .in('user_id', [...new Set(membersData.map((m) => m.user_id))]);
+
+  if (profilesError || !profilesData) return null;
+
+  const { data: countsData, error: countsError } = await supabase.rpc('get_subscriber_counts');
+
+  if (countsError || !countsData) return null;
+
+  return conversationsData.map((c) => ({
+    id: c.id,
+    type: c.type as ConversationType,
+    title: c.title,
+    contact: null,
+    join_code: c.join_code,
+    subscriber_count: countsData.find((count) => count.conversation_id === c.id)?.subscriber_count ?? 0,
+    members: membersData
+      .filter((m) => m.conversation_id === c.id)
+      .map((m): ConversationMember => {
+        const profile = profilesData.find((p) => p.user_id === m.user_id);
+        return {
+          user_id: m.user_id,
+          role: m.role as ConversationRole,
+          profile: profile ? { name: profile.name, uid: profile.uid, avatar_color: profile.avatar_color } : UNKNOWN_PROFILE,
+        };
+      }),
+  }));
+}
+
+/** Creates a group owned by the current user. Resolves to the new conversation id, or null on failure. */
+export async function createGroup(title: string, memberIds: string[]) {
+  const { data, error } = await supabase.rpc('create_group', {
+    p_title: title,
+    p_member_ids: memberIds,
+  });
+  if (error || !data) return null;
+  return data;
+}
+
+/** Creates a channel owned by the current user. Resolves to the new conversation id, or null on failure. */
+export async function createChannel(title: string) {
+  const { data, error } = await supabase.rpc('create_channel', { p_title: title });
+  if (error || !data) return null;
+  return data;
+}
+
+/** The channel a join code belongs to, or null if there is none. */
+export async function lookupChannel(code: string) {
+  const { data, error } = await supabase.rpc('lookup_channel_by_code', { p_code: code });
+  if (error || !data?.[0]) return null;
+  return data[0];
+}
+
+/** Subscribes the current user to a channel. Resolves to its conversation id, or null on failure. */
+export async function joinChannel(code: string) {
+  const { data, error } = await supabase.rpc('join_channel', { p_code: code });
+  if (error || !data) return null;
+  return data;
+}
+
+/** The user's pinned, muted and archived states, or null if the query fails. */
+export async function loadConversationStates(userId: string): Promise<ConversationState[] | null> {
+  const { data, error } = await supabase
+    .from('conversation_states')
+    .select('conversation_id, pinned_at, muted, muted_until, archived_at')
+    .eq('user_id', userId);
+  if (error || !data) return null;
+  return data;
+}
+
+/** Changes part of the user's state for a conversation. Resolves to the saved state, or null on failure. */
+export async function updateConversationState(
+  userId: string,
+  conversationId: string,
+  changes: Partial<Omit<ConversationState, 'conversation_id'>>
+): Promise<ConversationState | null> {
+  const { data, error } = await supabase
+    .from('conversation_states')
+    .upsert({ conversation_id: conversationId, user_id: userId, ...changes }, { onConflict: 'conversation_id,user_id' })
+    .select('conversation_id, pinned_at, muted, muted_until, archived_at')
+    .single();
+  if (error || !data) return null;
+  return data;
+}
+
+/** Lets the channel owner promote a subscriber to admin or demote them. Resolves to false on failure. */
+export async function setChannelAdmin(conversationId: string, userId: string, admin: boolean) {
+  const { error } = await supabase.rpc('set_channel_admin', {
+    p_conversation_id: conversationId,
+    p_user_id: userId,
+    p_admin: admin,
+  });
+  return !error;
+}
@@ -0,0 +1,89 @@
+/**
+ * Word-level diff between two versions of a message, used by the edit
+ * history. Whitespace runs are kept as their own tokens so the text can be
+ * rebuilt exactly from the parts.
+ */
+
+export interface DiffPart {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+// Past this many LCS cells (changed tokens before × after) the changed span is
+// shown as replaced wholesale instead, keeping long rewrites cheap
+const MAX_CELLS = 250_000;
+
+const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+
+function push(parts: DiffPart[], type: DiffPart['type'], text: string) {
+  const last = parts[parts.length - 1];
+  if (last?.type === type) {
+    last.text += text;
+  } else {
+    parts.push({ type, text });
+  }
+}
+
+export function diffWords(before: string, after: string): DiffPart[] {
+  const tokensBefore = tokenize(before);
+  const tokensAfter = tokenize(after);
+
+  // Unchanged text at either end needs no LCS
+  let start = 0;
+  while (
+    start < tokensBefore.length &&
+    start < tokensAfter.length &&
+    tokensBefore[start] === tokensAfter[start]
+  ) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < tokensBefore.length - start &&
+    end < tokensAfter.length - start &&
+    tokensBefore[tokensBefore.length - 1 - end] === tokensAfter[tokensAfter.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const parts: DiffPart[] = [];
+  if (start > 0) push(parts, 'equal', tokensBefore.slice(0, start).join(''));
+
+  const a = tokensBefore.slice(start, tokensBefore.length - end);
+  const b = tokensAfter.slice(start, tokensAfter.length - end);
+  if (a.length * b.length > MAX_CELLS) {
+    push(parts, 'delete', a.join(''));
+    push(parts, 'insert', b.join(''));
+  } else {
+    diffMiddle(parts, a, b);
+  }
+
+  if (end > 0) push(parts, 'equal', tokensAfter.slice(tokensAfter.length - end).join(''));
+  return parts;
+}
+
+function diffMiddle(parts: DiffPart[], a: string[], b: string[]) {
+  // lengths[i][j]: longest common subsequence of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(parts, 'equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push(parts, 'delete', a[i++]);
+    } else {
+      push(parts, 'insert', b[j++]);
+    }
+  }
+  while (i < a.length) push(parts, 'delete', a[i++]);
+  while (j < b.length) push(parts, 'insert', b[j++]);
+}
@@ -0,0 +1,13 @@
+/** Timers a conversation can use for disappearing messages; null turns them off. */
+export const DISAPPEARING_TIMERS: { seconds: number | null; label: string }[] = [
+  { seconds: null, label: 'Off' },
+  { seconds: 3600, label: '1 hour' },
+  { seconds: 86400, label: '24 hours' },
+  { seconds: 604800, label: '7 days' },
+];
+
+export const timerLabel = (seconds: number | null) =>
+  DISAPPEARING_TIMERS.find((t) => t.seconds === seconds)?.label ?? 'Off';
+
+export const isExpired = (expiresAt: string | null, now = Date.now()) =>
+  !!expiresAt && new Date(expiresAt).getTime() <= now;
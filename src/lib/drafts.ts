@@ -0,0 +1,72 @@
+import type { Message } from '@/types/chat';
+
+/**
+ * Unsent composer state per conversation, kept in localStorage so it survives
+ * switching contacts and reloading the page. Conversations with disappearing
+ * messages get no drafts, and signing out removes them all.
+ */
+
+export interface Draft {
+  text: string;
+  reply_to: Message | null;
+  updated_at: string;
+}
+
+export type Drafts = Record<string, Draft>;
+
+const storageKey = (userId: string) => `pagion-drafts:${userId}`;
+
+const listeners: Array<() => void> = [];
+
+const notify = () => listeners.forEach((listener) => listener());
+
+export function subscribeToDrafts(listener: () => void) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) listeners.splice(index, 1);
+  };
+}
+
+export function loadDrafts(userId: string): Drafts {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(userId)) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function getDraft(userId: string, contactUserId: string): Draft | null {
+  return loadDrafts(userId)[contactUserId] ?? null;
+}
+
+/** Stores the composer state for a conversation; an empty composer clears the draft. */
+export function saveDraft(userId: string, contactUserId: string, text: string, replyTo: Message | null) {
+  const drafts = loadDrafts(userId);
+  const existing = drafts[contactUserId];
+
+  if (!text.trim() && !replyTo) {
+    if (!existing) return;
+    delete drafts[contactUserId];
+  } else {
+    if (existing && existing.text === text && existing.reply_to?.id === replyTo?.id) return;
+    // Only what's needed to restore the reply banner; delivery state is local to the session
+    const reply_to = replyTo
+      ? { ...replyTo, status: undefined, error: undefined }
+      : null;
+    drafts[contactUserId] = { text, reply_to, updated_at: new Date().toISOString() };
+  }
+
+  localStorage.setItem(storageKey(userId), JSON.stringify(drafts));
+  notify();
+}
+
+export function clearDraft(userId: string, contactUserId: string) {
+  saveDraft(userId, contactUserId, '', null);
+}
+
+/** Removes every draft of the user, e.g. when they sign out on a shared device. */
+export function clearDrafts(userId: string) {
+  localStorage.removeItem(storageKey(userId));
+  notify();
+}
@@ -0,0 +1,162 @@
+/**
+ * Markdown-lite parser for message bodies. It produces a small AST that is
+ * rendered as React elements, so raw HTML in a message is always shown as text.
+ *
+ * Supported: **bold**, *italic* / _italic_, ~~strike~~, `inline code`,
+ * ```fenced code blocks```, > block quotes and bare http(s)/www URLs.
+ */
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'bold' | 'italic' | 'strike'; children: Inline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; text: string };
+
+export type Block =
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'quote'; children: Block[] };
+
+const FENCE = /^\s*```/;
+const QUOTE = /^\s*>\s?/;
+
+const INLINE_PATTERN = new RegExp(
+  [
+    /`([^`\n]+)`/.source, // 1: inline code
+    /((?:https?:\/\/|www\.)[^\s<>"]+)/.source, // 2: url
+    /\*\*(?=\S)([\s\S]*?\S)\*\*/.source, // 3: bold
+    /~~(?=\S)([\s\S]*?\S)~~/.source, // 4: strike
+    /\*(?=[^\s*])([^*]*?[^\s*])\*/.source, // 5: italic (*)
+    // Written as a string: TS rejects \p{...} in a regex literal without the u flag
+    '(?<![\\p{L}\\p{N}_])_(?=\\S)([^_]*?\\S)_(?![\\p{L}\\p{N}_])', // 6: italic (_), not inside snake_case
+  ].join('|'),
+  'gu'
+);
+
+// Punctuation that usually ends a sentence rather than belonging to the URL
+const TRAILING_URL_PUNCTUATION = /[.,;:!?'"]+$/;
+
+function trimUrl(url: string) {
+  let trimmed = url.replace(TRAILING_URL_PUNCTUATION, '');
+  // Drop a closing paren that wraps the URL, e.g. "(see https://example.com)"
+  while (trimmed.endsWith(')') && (trimmed.match(/\(/g)?.length ?? 0) < (trimmed.match(/\)/g)?.length ?? 0)) {
+    trimmed = trimmed.slice(0, -1).replace(TRAILING_URL_PUNCTUATION, '');
+  }
+  return trimmed;
+}
+
+/** Returns a safe absolute http(s) URL, or null for anything else. */
+export function toSafeHref(url: string) {
+  try {
+    const parsed = new URL(url.startsWith('www.') ? `https://${url}` : url);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed.href : null;
+  } catch {
+    return null;
+  }
+}
+
+function pushText(nodes: Inline[], text: string) {
+  if (!text) return;
+  const last = nodes[nodes.length - 1];
+  if (last?.type === 'text') {
+    last.text += text;
+  } else {
+    nodes.push({ type: 'text', text });
+  }
+}
+
+export function parseInline(text: string): Inline[] {
+  const nodes: Inline[] = [];
+  const pattern = new RegExp(INLINE_PATTERN);
+  let cursor = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text))) {
+    const [raw, code, url, bold, strike, italicStar, italicUnderscore] = match;
+    let consumed = raw;
+    let node: Inline | null = null;
+
+    if (code !== undefined) {
+      node = { type: 'code', text: code };
+    } else if (url !== undefined) {
+      consumed = trimUrl(url);
+      const href = toSafeHref(consumed);
+      node = href ? { type: 'link', href, text: consumed } : null;
+    } else if (bold !== undefined) {
+      node = { type: 'bold', children: parseInline(bold) };
+    } else if (strike !== undefined) {
+      node = { type: 'strike', children: parseInline(strike) };
+    } else {
+      node = { type: 'italic', children: parseInline(italicStar ?? italicUnderscore) };
+    }
+
+    pushText(nodes, text.slice(cursor, match.index));
+    if (node) {
+      nodes.push(node);
+    } else {
+      pushText(nodes, consumed);
+    }
+    cursor = match.index + consumed.length;
+    pattern.lastIndex = cursor;
+  }
+
+  pushText(nodes, text.slice(cursor));
+  return nodes;
+}
+
+export function parseBlocks(text: string): Block[] {
+  const lines = text.split('\n');
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (FENCE.test(line)) {
+      const lang = line.replace(FENCE, '').trim();
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !FENCE.test(lines[i])) {
+        body.push(lines[i]);
+        i++;
+      }
+      i++; // closing fence (or end of message for an unterminated block)
+      blocks.push({ type: 'code', lang, text: body.join('\n') });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        body.push(lines[i].replace(QUOTE, ''));
+        i++;
+      }
+      blocks.push({ type: 'quote', children: parseBlocks(body.join('\n')) });
+      continue;
+    }
+
+    const body: string[] = [];
+    while (i < lines.length && !FENCE.test(lines[i]) && !QUOTE.test(lines[i])) {
+      body.push(lines[i]);
+      i++;
+    }
+    const paragraph = body.join('\n');
+    if (paragraph.trim()) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.replace(/^\n+|\n+$/g, '')) });
+    }
+  }
+
+  return blocks;
+}
+
+/** Single-line inline markup for previews: block syntax is dropped and lines are joined. */
+export function parsePreview(text: string): Inline[] {
+  const flattened = text
+    .split('\n')
+    .filter((line) => !FENCE.test(line))
+    .map((line) => line.replace(QUOTE, ''))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return parseInline(flattened);
+}
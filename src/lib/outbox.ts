@@ -0,0 +1,216 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Persistent queue of message writes made while offline. Entries live in
+ * IndexedDB so they survive reloads, and are replayed strictly in the order
+ * they were queued once the connection comes back.
+ */
+
+const DB_NAME = 'pagion-outbox';
+const DB_VERSION = 1;
+const STORE = 'entries';
+const UNIQUE_VIOLATION = '23505';
+
+interface OutboxBase {
+  /** Assigned by IndexedDB; defines replay order. */
+  seq?: number;
+  user_id: string;
+  queued_at: string;
+}
+
+export interface OutboxSend extends OutboxBase {
+  kind: 'send';
+  /** Client-generated message id, doubling as the idempotency key. */
+  message_id: string;
+  conversation_id: string;
+  /** Set for direct conversations only. */
+  receiver_id: string | null;
+  content: string;
+  reply_to_id: string | null;
+}
+
+export interface OutboxEdit extends OutboxBase {
+  kind: 'edit';
+  message_id: string;
+  conversation_id: string;
+  content: string;
+}
+
+/** Delete for everyone, which leaves a tombstone. */
+export interface OutboxDelete extends OutboxBase {
+  kind: 'delete';
+  message_id: string;
+  conversation_id: string;
+}
+
+export type OutboxEntry = OutboxSend | OutboxEdit | OutboxDelete;
+
+export type NewOutboxEntry = OutboxEntry extends infer E
+  ? E extends OutboxEntry ? Omit<E, 'seq' | 'queued_at'> : never
+  : never;
+
+export type OutboxEvent =
+  | { type: 'queued'; entry: OutboxEntry }
+  | { type: 'flushed'; entry: OutboxEntry; created_at?: string }
+  | { type: 'rejected'; entry: OutboxEntry; error: string };
+
+const listeners: Array<(event: OutboxEvent) => void> = [];
+
+function emit(event: OutboxEvent) {
+  listeners.forEach((listener) => listener(event));
+}
+
+export function subscribeToOutbox(listener: (event: OutboxEvent) => void) {
+  listeners.push(listener);
+  return () => {
+    const index = listeners.indexOf(listener);
+    if (index > -1) listeners.splice(index, 1);
+  };
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'seq', autoIncrement: true });
+        store.createIndex('user_id', 'user_id');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDb();
+  return promisify(fn(db.transaction(STORE, mode).objectStore(STORE)));
+}
+
+export async function enqueue(entry: NewOutboxEntry) {
+  const queued = { ...entry, queued_at: new Date().toISOString() } as OutboxEntry;
+  queued.seq = (await withStore('readwrite', (store) => store.add(queued))) as number;
+  emit({ type: 'queued', entry: queued });
+  return queued;
+}
+
+/** Entries for a user, oldest first. */
+export async function listOutbox(userId: string) {
+  const entries = await withStore<OutboxEntry[]>('readonly', (store) =>
+    store.index('user_id').getAll(userId)
+  );
+  return entries.sort((a, b) => a.seq - b.seq);
+}
+
+async function removeEntry(entry: OutboxEntry) {
+  await withStore('readwrite', (store) => store.delete(entry.seq));
+}
+
+/**
+ * Drops every queued write for a message that never reached the server, e.g.
+ * when a queued send is deleted before reconnecting. Returns true if a queued
+ * send was removed.
+ */
+export async function cancelQueuedMessage(userId: string, messageId: string) {
+  const entries = (await listOutbox(userId)).filter((e) => e.message_id === messageId);
+  if (!entries.some((e) => e.kind === 'send')) return false;
+
+  for (const entry of entries) {
+    await removeEntry(entry);
+  }
+  return true;
+}
+
+/** Forgets every queued write for a user, e.g. when they sign out on a shared device. */
+export async function clearOutbox(userId: string) {
+  for (const entry of await listOutbox(userId)) {
+    await removeEntry(entry);
+  }
+}
+
+/** Fetch failures carry no Postgres/PostgREST error code. */
+export function isNetworkError(error: { code?: string } | null) {
+  return !!error && (!navigator.onLine || !error.code);
+}
+
+async function replay(entry: OutboxEntry) {
+  switch (entry.kind) {
+    case 'send': {
+      const { data, error } = await supabase
+        .from('messages')
+        .insert({
+          id: entry.message_id,
+          conversation_id: entry.conversation_id,
+          sender_id: entry.user_id,
+          receiver_id: entry.receiver_id,
+          content: entry.content,
+          reply_to_id: entry.reply_to_id,
+        })
+        .select('created_at')
+        .maybeSingle();
+      // Already inserted by an earlier attempt whose response was lost
+      if (error?.code === UNIQUE_VIOLATION) return { error: null };
+      return { error, created_at: data?.created_at };
+    }
+    case 'edit': {
+      const { error } = await supabase
+        .from('messages')
+        .update({ content: entry.content, is_edited: true })
+        .eq('id', entry.message_id);
+      return { error };
+    }
+    case 'delete': {
+      const { error } = await supabase
+        .from('messages')
+        .update({ deleted_at: entry.queued_at })
+        .eq('id', entry.message_id);
+      return { error };
+    }
+  }
+}
+
+let flushing: Promise<void> | null = null;
+
+/**
+ * Replays queued writes in order. Stops at the first network failure so later
+ * entries never overtake earlier ones; entries the server rejects are dropped
+ * and reported through a 'rejected' event.
+ */
+export function flushOutbox(userId: string) {
+  if (!flushing) {
+    flushing = (async () => {
+      try {
+        // Re-read after each pass to pick up writes queued while flushing
+        let entries = await listOutbox(userId);
+        while (entries.length > 0) {
+          for (const entry of entries) {
+            const { error, created_at } = await replay(entry);
+            if (error && isNetworkError(error)) return;
+
+            await removeEntry(entry);
+            emit(error
+              ? { type: 'rejected', entry, error: error.message }
+              : { type: 'flushed', entry, created_at });
+          }
+          entries = await listOutbox(userId);
+        }
+      } finally {
+        flushing = null;
+      }
+    })();
+  }
+  return flushing;
+}
@@ -0,0 +1,86 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Online presence over realtime presence, on a private channel per user:
+ * `presence:<user id>`. Users track themselves only in their own channel and
+ * follow a contact by joining the contact's. The server lets a contact join
+ * only while the user's privacy settings allow them to see it, so hidden
+ * presence never leaves it. Followed channels are shared by everything on
+ * the page that follows the same contact.
+ */
+
+interface Watched {
+  channel: RealtimeChannel;
+  refs: number;
+  /** Whether the contact is tracked in their channel. */
+  online: boolean;
+  listeners: Array<(online: boolean) => void>;
+}
+
+const watched = new Map<string, Watched>();
+let own: RealtimeChannel | null = null;
+
+const topicFor = (userId: string) => `presence:${userId}`;
+
+function setContactOnline(entry: Watched, online: boolean) {
+  if (entry.online === online) return;
+  entry.online = online;
+  entry.listeners.forEach((listener) => listener(online));
+}
+
+/** Marks the user online until stopped, e.g. for as long as the app is open. */
+export function startTracking(userId: string) {
+  stopTracking();
+
+  const channel = supabase.channel(topicFor(userId), { config: { private: true, presence: { key: userId } } });
+  channel.subscribe((status) => {
+    // Track again after every (re)subscribe so presence survives reconnects
+    if (status === 'SUBSCRIBED') channel.track({ user_id: userId });
+  });
+  own = channel;
+}
+
+export function stopTracking() {
+  if (!own) return;
+  supabase.removeChannel(own);
+  own = null;
+}
+
+/** Follows whether a contact is online; the listener is called with the current state right away. */
+export function subscribeToPresence(contactUserId: string, listener: (online: boolean) => void) {
+  let entry = watched.get(contactUserId);
+
+  if (!entry) {
+    const created: Watched = {
+      channel: supabase.channel(topicFor(contactUserId), { config: { private: true } }),
+      refs: 0,
+      online: false,
+      listeners: [],
+    };
+    created.channel
+      .on('presence', { event: 'sync' }, () => {
+        setContactOnline(created, contactUserId in created.channel.presenceState());
+      })
+      .subscribe((status) => {
+        // Refused when the contact hides their presence from the user
+        if (status !== 'SUBSCRIBED') setContactOnline(created, false);
+      });
+    watched.set(contactUserId, created);
+    entry = created;
+  }
+
+  const current = entry;
+  current.refs++;
+  current.listeners.push(listener);
+  listener(current.online);
+
+  return () => {
+    const index = current.listeners.indexOf(listener);
+    if (index > -1) current.listeners.splice(index, 1);
+    if (--current.refs > 0) return;
+
+    supabase.removeChannel(current.channel);
+    watched.delete(contactUserId);
+  };
+}
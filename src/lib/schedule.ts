@@ -0,0 +1,14 @@
+import { format, startOfDay } from 'date-fns';
+
+/** Tomorrow at 9:00 local time, the default for new scheduled messages. */
+export function defaultSendAt() {
+  const date = startOfDay(new Date());
+  date.setDate(date.getDate() + 1);
+  date.setHours(9);
+  return date;
+}
+
+/** Scheduled messages must go out in the future. */
+export const hasPassed = (sendAt: Date) => sendAt.getTime() <= Date.now();
+
+export const formatSendAt = (sendAt: string | Date) => format(new Date(sendAt), "EEE, MMM d 'at' HH:mm");
@@ -0,0 +1,117 @@
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Typing indicators over one private realtime inbox per user. Everyone typing
+ * to the user broadcasts into their inbox, which only the user can listen to,
+ * so a client holds a single channel however many contacts it follows. Sends
+ * go over HTTP without joining the contact's inbox. A typist repeats its start
+ * event while typing, so an indicator that stops being refreshed expires on
+ * its own, e.g. when the typist drops offline.
+ */
+
+const EVENT = 'typing';
+// Minimum gap between repeated start events from this client
+const TYPING_THROTTLE = 2500;
+// Long enough to survive one missed refresh
+const TYPING_EXPIRY = 6000;
+
+interface TypingPayload {
+  user_id: string;
+  typing: boolean;
+}
+
+interface Conversation {
+  refs: number;
+  /** Whether the contact is typing to us. */
+  typing: boolean;
+  expiry: ReturnType<typeof setTimeout> | null;
+  listeners: Array<(typing: boolean) => void>;
+  /** When we last broadcast a start event; 0 when we aren't typing. */
+  sentAt: number;
+  /** The contact's inbox, created on our first keystroke; never joined. */
+  outbox: RealtimeChannel | null;
+}
+
+const conversations = new Map<string, Conversation>();
+let inbox: { userId: string; channel: RealtimeChannel } | null = null;
+
+const topicFor = (userId: string) => `typing:${userId}`;
+
+function setContactTyping(conversation: Conversation, typing: boolean) {
+  if (conversation.expiry) clearTimeout(conversation.expiry);
+  conversation.expiry = typing
+    ? setTimeout(() => setContactTyping(conversation, false), TYPING_EXPIRY)
+    : null;
+
+  if (conversation.typing === typing) return;
+  conversation.typing = typing;
+  conversation.listeners.forEach((listener) => listener(typing));
+}
+
+function openInbox(userId: string) {
+  if (inbox?.userId === userId) return;
+  if (inbox) supabase.removeChannel(inbox.channel);
+
+  const channel = supabase.channel(topicFor(userId), { config: { private: true } });
+  channel
+    .on('broadcast', { event: EVENT }, ({ payload }) => {
+      const { user_id, typing } = payload as TypingPayload;
+      const conversation = conversations.get(user_id);
+      if (conversation) setContactTyping(conversation, typing);
+    })
+    .subscribe();
+  inbox = { userId, channel };
+}
+
+function broadcast(conversation: Conversation, userId: string, contactUserId: string, typing: boolean) {
+  const payload: TypingPayload = { user_id: userId, typing };
+  conversation.sentAt = typing ? Date.now() : 0;
+  conversation.outbox ??= supabase.channel(topicFor(contactUserId), { config: { private: true } });
+  // Best effort: a lost event is covered by the next one or by expiry
+  conversation.outbox.httpSend(EVENT, payload).catch(() => {});
+}
+
+/** Follows whether a contact is typing to the user; the listener is called with the current state right away. */
+export function subscribeToTyping(userId: string, contactUserId: string, listener: (typing: boolean) => void) {
+  openInbox(userId);
+
+  let conversation = conversations.get(contactUserId);
+  if (!conversation) {
+    conversation = { refs: 0, typing: false, expiry: null, listeners: [], sentAt: 0, outbox: null };
+    conversations.set(contactUserId, conversation);
+  }
+
+  const current = conversation;
+  current.refs++;
+  current.listeners.push(listener);
+  listener(current.typing);
+
+  return () => {
+    const index = current.listeners.indexOf(listener);
+    if (index > -1) current.listeners.splice(index, 1);
+    if (--current.refs > 0) return;
+
+    if (current.sentAt) broadcast(current, userId, contactUserId, false);
+    if (current.expiry) clearTimeout(current.expiry);
+    if (current.outbox) supabase.removeChannel(current.outbox);
+    conversations.delete(contactUserId);
+
+    if (conversations.size === 0 && inbox) {
+      supabase.removeChannel(inbox.channel);
+      inbox = null;
+    }
+  };
+}
+
+/**
+ * Tells the contact whether the user is typing. Start events are throttled,
+ * so this can be called on every keystroke; stop is only sent after a start.
+ */
+export function sendTyping(userId: string, contactUserId: string, typing: boolean) {
+  const conversation = conversations.get(contactUserId);
+  if (!conversation) return;
+
+  if (typing ? Date.now() - conversation.sentAt < TYPING_THROTTLE : !conversation.sentAt) return;
+  broadcast(conversation, userId, contactUserId, typing);
+}
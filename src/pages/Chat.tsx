@@ -1,32 +1,50 @@
-import React, { useState } from 'react';
+import React, { useCallback, useRef, useState } from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '@/contexts/AuthContext';
 import { Logo } from '@/components/Logo';
 import { ContactsList } from '@/components/ContactsList';
 import { ChatArea } from '@/components/ChatArea';
 import { Settings } from '@/components/Settings';
+import { StarredMessages } from '@/components/StarredMessages';
 import { UserAvatar } from '@/components/UserAvatar';
+import { ConversationAvatar } from '@/components/ConversationAvatar';
 import { Button } from '@/components/ui/button';
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
-import { Settings as SettingsIcon, Menu, ArrowLeft } from 'lucide-react';
+import { Settings as SettingsIcon, Menu, ArrowLeft, Star } from 'lucide-react';
 import { useIsMobile } from '@/hooks/use-mobile';
-
-interface Contact {
-  id: string;
-  contact_user_id: string;
-  profile: {
-    name: string;
-    uid: string;
-    avatar_color: string;
-  };
-}
+import { useToast } from '@/hooks/use-toast';
+import { useOutboxSync } from '@/hooks/use-outbox-sync';
+import { useDeliveryReceipts } from '@/hooks/use-delivery-receipts';
+import { usePresenceSync } from '@/hooks/use-presence';
+import { useConversationPreviews } from '@/hooks/use-conversation-previews';
+import { useConversationStates } from '@/hooks/use-conversation-states';
+import { conversationName, openDirectConversation } from '@/lib/conversations';
+import { isMuted } from '@/lib/conversation-state';
+import type { Contact, Conversation } from '@/types/chat';
 
 export default function Chat() {
   const { user, profile, loading } = useAuth();
   const isMobile = useIsMobile();
-  const [selectedContact, setSelectedContact] = useState<Contact | null>(null);
+  const { toast } = useToast();
+  const [selectedConversation, setSelectedConversation] = useState<Conversation | null>(null);
+  // Latest selection, so a slow direct-conversation lookup can't override a newer pick
+  const selectionRef = useRef<string | null>(null);
   const [settingsOpen, setSettingsOpen] = useState(false);
+  const [starredOpen, setStarredOpen] = useState(false);
+  // Starred message to scroll to once its conversation is open
+  const [jumpToMessageId, setJumpToMessageId] = useState<string | null>(null);
+  const handleJumpHandled = useCallback(() => setJumpToMessageId(null), []);
   const [sidebarOpen, setSidebarOpen] = useState(false);
+  useOutboxSync();
+  useDeliveryReceipts();
+  usePresenceSync();
+  const previews = useConversationPreviews(selectedConversation?.id ?? null);
+  const { states, updateState } = useConversationStates();
+  // Muted conversations don't count towards the total
+  const totalUnread = previews.reduce(
+    (total, p) => (isMuted(states[p.conversation_id]) ? total : total + p.unread_count),
+    0
+  );
 
   if (loading) {
     return (
@@ -42,42 +60,101 @@ export default function Chat() {
     return <Navigate to="/auth" replace />;
   }
 
-  const handleSelectContact = (contact: Contact) => {
-    setSelectedContact(contact);
+  const selectConversation = (conversation: Conversation | null) => {
+    selectionRef.current = conversation?.id ?? null;
+    setSelectedConversation(conversation);
     if (isMobile) {
       setSidebarOpen(false);
     }
   };
 
-  const Sidebar = () => (
+  // Keep the open group or channel in step with its latest members and roles
+  const handleGroupsLoaded = (groups: Conversation[]) => {
+    setSelectedConversation((prev) => (prev && !prev.contact ? groups.find((g) => g.id === prev.id) ?? prev : prev));
+  };
+
+  const handleSelectContact = async (contact: Contact) => {
+    selectionRef.current = contact.contact_user_id;
+    const conversation = await openDirectConversation(contact);
+    if (selectionRef.current !== contact.contact_user_id) return;
+
+    if (!conversation) {
+      toast({
+        title: 'Error',
+        description: 'Failed to open conversation.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    selectConversation(conversation);
+  };
+
+  const handleOpenStarred = (conversation: Conversation, messageId: string) => {
+    // Keep the open conversation as is rather than reloading it
+    if (conversation.id !== selectedConversation?.id) {
+      selectConversation(conversation);
+    }
+    setJumpToMessageId(messageId);
+    setStarredOpen(false);
+  };
+
+  const sidebar = (
     <div className="h-full flex flex-col bg-card">
       {/* Sidebar Header */}
       <div className="p-4 border-b border-border flex items-center justify-between">
-        <Logo size="sm" />
-        <Sheet open={settingsOpen} onOpenChange={setSettingsOpen}>
-          <SheetTrigger asChild>
-            <Button variant="ghost" size="icon" className="rounded-full">
-              {profile ? (
-                <UserAvatar
-                  name={profile.name}
-                  color={profile.avatar_color}
-                  size="sm"
-                />
-              ) : (
-                <SettingsIcon className="w-5 h-5" />
-              )}
-            </Button>
-          </SheetTrigger>
-          <SheetContent side="left" className="w-full sm:max-w-md p-0 overflow-y-auto">
-            <Settings onClose={() => setSettingsOpen(false)} />
-          </SheetContent>
-        </Sheet>
+        <div className="flex items-center gap-2">
+          <Logo size="sm" />
+          {totalUnread > 0 && (
+            <span
+              className="min-w-5 h-5 px-1.5 rounded-full bg-primary text-primary-foreground text-[10px] font-semibold flex items-center justify-center"
+              aria-label={`${totalUnread} unread messages`}
+            >
+              {totalUnread > 99 ? '99+' : totalUnread}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <Sheet open={starredOpen} onOpenChange={setStarredOpen}>
+            <SheetTrigger asChild>
+              <Button variant="ghost" size="icon" className="rounded-full" aria-label="Starred messages">
+                <Star className="w-5 h-5" />
+              </Button>
+            </SheetTrigger>
+            <SheetContent side="left" className="w-full sm:max-w-md p-0 overflow-y-auto">
+              <StarredMessages onOpenMessage={handleOpenStarred} />
+            </SheetContent>
+          </Sheet>
+          <Sheet open={settingsOpen} onOpenChange={setSettingsOpen}>
+            <SheetTrigger asChild>
+              <Button variant="ghost" size="icon" className="rounded-full">
+                {profile ? (
+                  <UserAvatar
+                    name={profile.name}
+                    color={profile.avatar_color}
+                    size="sm"
+                  />
+                ) : (
+                  <SettingsIcon className="w-5 h-5" />
+                )}
+              </Button>
+            </SheetTrigger>
+            <SheetContent side="left" className="w-full sm:max-w-md p-0 overflow-y-auto">
+              <Settings onClose={() => setSettingsOpen(false)} />
+            </SheetContent>
+          </Sheet>
+        </div>
       </div>
       
       {/* Contacts List */}
       <ContactsList
+        previews={previews}
+        states={states}
+        onUpdateState={updateState}
         onSelectContact={handleSelectContact}
-        selectedContactId={selectedContact?.contact_user_id || null}
+        onSelectGroup={selectConversation}
+        onGroupsLoaded={handleGroupsLoaded}
+        selectedContactId={selectedConversation?.contact?.contact_user_id || null}
+        selectedGroupId={selectedConversation?.contact ? null : selectedConversation?.id || null}
       />
     </div>
   );
@@ -86,30 +163,30 @@ export default function Chat() {
   if (isMobile) {
     return (
       <div className="h-screen flex flex-col">
-        {selectedContact ? (
+        {selectedConversation ? (
           <>
             {/* Mobile Chat Header with Back Button */}
             <div className="p-3 border-b border-border flex items-center gap-3 bg-card">
               <Button
                 variant="ghost"
                 size="icon"
-                onClick={() => setSelectedContact(null)}
+                onClick={() => selectConversation(null)}
               >
                 <ArrowLeft className="w-5 h-5" />
               </Button>
-              <UserAvatar
-                name={selectedContact.profile.name}
-                color={selectedContact.profile.avatar_color}
-                size="sm"
-              />
+              <ConversationAvatar conversation={selectedConversation} size="sm" />
               <div className="flex-1 min-w-0">
-                <p className="font-semibold truncate">{selectedContact.profile.name}</p>
+                <p className="font-semibold truncate">{conversationName(selectedConversation)}</p>
               </div>
             </div>
-            <ChatArea contact={selectedContact} />
+            <ChatArea
+              conversation={selectedConversation}
+              jumpToMessageId={jumpToMessageId}
+              onJumpHandled={handleJumpHandled}
+            />
           </>
         ) : (
-          <Sidebar />
+          sidebar
         )}
       </div>
     );
@@ -120,11 +197,15 @@ export default function Chat() {
     <div className="h-screen flex">
       {/* Sidebar */}
       <div className="w-80 lg:w-96 border-r border-border flex-shrink-0">
-        <Sidebar />
+        {sidebar}
       </div>
 
       {/* Chat Area */}
-      <ChatArea contact={selectedContact} />
+      <ChatArea
+        conversation={selectedConversation}
+        jumpToMessageId={jumpToMessageId}
+        onJumpHandled={handleJumpHandled}
+      />
     </div>
   );
 }
@@ -0,0 +1,29 @@
+import { describe, it, expect } from "vitest";
+import { formatActivityTime } from "@/lib/activity";
+
+// Wednesday afternoon, local time
+const now = new Date(2026, 1, 4, 15, 30);
+const at = (day: number, hours: number, minutes = 0, month = 1, year = 2026) =>
+  new Date(year, month, day, hours, minutes);
+
+describe("formatActivityTime", () => {
+  it("uses minutes and hours within the same day", () => {
+    expect(formatActivityTime(at(4, 15, 30), now)).toBe("now");
+    expect(formatActivityTime(at(4, 15, 25), now)).toBe("5m");
+    expect(formatActivityTime(at(4, 12, 0), now)).toBe("3h");
+  });
+
+  it("switches to days once the date changes", () => {
+    expect(formatActivityTime(at(3, 23, 0), now)).toBe("Yesterday");
+    expect(formatActivityTime(at(1, 9, 0), now)).toBe("Sun");
+  });
+
+  it("falls back to a date after a week", () => {
+    expect(formatActivityTime(at(20, 9, 0, 0), now)).toBe("Jan 20");
+    expect(formatActivityTime(at(20, 9, 0, 11, 2025), now)).toBe("Dec 20, 2025");
+  });
+
+  it("accepts ISO strings", () => {
+    expect(formatActivityTime(at(4, 15, 20).toISOString(), now)).toBe("10m");
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import { diffWords } from "@/lib/diff";
+
+describe("diffWords", () => {
+  it("marks replaced words", () => {
+    expect(diffWords("meet at 5 today", "meet at 6 today")).toEqual([
+      { type: "equal", text: "meet at " },
+      { type: "delete", text: "5" },
+      { type: "insert", text: "6" },
+      { type: "equal", text: " today" },
+    ]);
+  });
+
+  it("rebuilds both versions from the parts", () => {
+    const before = "the quick  brown fox\njumps";
+    const after = "a quick brown cat\njumps high";
+    const parts = diffWords(before, after);
+
+    const rebuild = (skip: string) =>
+      parts.filter((p) => p.type !== skip).map((p) => p.text).join("");
+    expect(rebuild("insert")).toBe(before);
+    expect(rebuild("delete")).toBe(after);
+  });
+
+  it("returns a single equal part for unchanged text", () => {
+    expect(diffWords("same text", "same text")).toEqual([{ type: "equal", text: "same text" }]);
+  });
+
+  it("replaces a long rewrite wholesale but keeps the unchanged ends", () => {
+    const words = (prefix: string) => Array.from({ length: 600 }, (_, i) => `${prefix}${i}`).join(" ");
+    const before = `start ${words("a")} end`;
+    const after = `start ${words("b")} end`;
+
+    expect(diffWords(before, after)).toEqual([
+      { type: "equal", text: "start " },
+      { type: "delete", text: words("a") },
+      { type: "insert", text: words("b") },
+      { type: "equal", text: " end" },
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { parseBlocks, parseInline, parsePreview, toSafeHref } from "@/lib/markdown";
+
+describe("parseInline", () => {
+  it("parses nested emphasis", () => {
+    expect(parseInline("**bold _and italic_** ~~gone~~")).toEqual([
+      {
+        type: "bold",
+        children: [
+          { type: "text", text: "bold " },
+          { type: "italic", children: [{ type: "text", text: "and italic" }] },
+        ],
+      },
+      { type: "text", text: " " },
+      { type: "strike", children: [{ type: "text", text: "gone" }] },
+    ]);
+  });
+
+  it("leaves markup inside inline code alone", () => {
+    expect(parseInline("run `**not bold**`")).toEqual([
+      { type: "text", text: "run " },
+      { type: "code", text: "**not bold**" },
+    ]);
+  });
+
+  it("does not italicize snake_case identifiers", () => {
+    expect(parseInline("use my_var_name here")).toEqual([{ type: "text", text: "use my_var_name here" }]);
+  });
+
+  it("links URLs without swallowing trailing punctuation", () => {
+    expect(parseInline("see (https://example.com/a_b_c).")).toEqual([
+      { type: "text", text: "see (" },
+      { type: "link", href: "https://example.com/a_b_c", text: "https://example.com/a_b_c" },
+      { type: "text", text: ")." },
+    ]);
+  });
+
+  it("keeps raw HTML as text", () => {
+    expect(parseInline('<img src=x onerror="alert(1)">')).toEqual([
+      { type: "text", text: '<img src=x onerror="alert(1)">' },
+    ]);
+  });
+});
+
+describe("parseBlocks", () => {
+  it("splits fenced code, quotes and paragraphs", () => {
+    expect(parseBlocks("> quoted\nhello\n```ts\nconst a = 1;\n```")).toEqual([
+      { type: "quote", children: [{ type: "paragraph", children: [{ type: "text", text: "quoted" }] }] },
+      { type: "paragraph", children: [{ type: "text", text: "hello" }] },
+      { type: "code", lang: "ts", text: "const a = 1;" },
+    ]);
+  });
+
+  it("treats an unterminated fence as running to the end", () => {
+    expect(parseBlocks("```\nline 1\nline 2")).toEqual([{ type: "code", lang: "", text: "line 1\nline 2" }]);
+  });
+});
+
+describe("parsePreview", () => {
+  it("flattens block syntax onto one line", () => {
+    expect(parsePreview("> hi\n```\ncode\n```")).toEqual([{ type: "text", text: "hi code" }]);
+  });
+});
+
+describe("toSafeHref", () => {
+  it("only allows http(s)", () => {
+    expect(toSafeHref("javascript:alert(1)")).toBeNull();
+    expect(toSafeHref("www.example.com")).toBe("https://www.example.com/");
+  });
+});
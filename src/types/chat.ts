@@ -0,0 +1,153 @@
+export type DeliveryStatus = 'pending' | 'queued' | 'sent' | 'failed';
+
+/**
+ * Everything but 'text' is a system note. 'pin' and 'unpin' notes point at the
+ * (un)pinned message through reply_to_id; a 'timer' note's content is the new
+ * disappearing-messages timer in seconds, '0' when turned off.
+ */
+export type MessageKind = 'text' | 'pin' | 'unpin' | 'timer';
+
+export interface Reaction {
+  id: string;
+  user_id: string;
+  emoji: string;
+}
+
+export interface Message {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  /** The other participant of a direct conversation; null in groups. */
+  receiver_id: string | null;
+  content: string;
+  kind: MessageKind;
+  reply_to_id: string | null;
+  is_edited: boolean;
+  created_at: string;
+  /** Set by the receiver's client once the message reaches it. */
+  delivered_at: string | null;
+  /** Set by the receiver's client once they open the conversation, unless they turned read receipts off. */
+  read_at: string | null;
+  /** Set when the sender deleted the message for everyone; the content is then empty. */
+  deleted_at: string | null;
+  /** Original author when the message was forwarded. */
+  forwarded_from_name: string | null;
+  /** When a disappearing message stops being shown; the server purges it shortly after. */
+  expires_at: string | null;
+  reply_to?: {
+    content: string;
+    sender_name: string;
+    deleted: boolean;
+  };
+  reactions?: Reaction[];
+  /** Whether the current user starred the message; stars are private to each user. */
+  is_starred?: boolean;
+  /** Local send state; messages loaded from the server are always 'sent'. 'queued' sends wait in the offline outbox. */
+  status?: DeliveryStatus;
+  /** Why the last send attempt failed, shown on the bubble. */
+  error?: string;
+}
+
+export interface Pin {
+  message_id: string;
+  pinned_by: string;
+  pinned_at: string;
+  sender_id: string;
+  content: string;
+}
+
+export interface StarredMessage {
+  message_id: string;
+  conversation_id: string;
+  conversation_type: ConversationType;
+  /** Group or channel title; null for direct conversations. */
+  conversation_title: string | null;
+  /** The other participant of a direct conversation; null for groups. */
+  contact_user_id: string | null;
+  sender_id: string;
+  content: string;
+  forwarded_from_name: string | null;
+  created_at: string;
+  starred_at: string;
+}
+
+/** A message waiting to be sent by the server at send_at. */
+export interface ScheduledMessage {
+  id: string;
+  conversation_id: string;
+  receiver_id: string | null;
+  content: string;
+  reply_to_id: string | null;
+  send_at: string;
+}
+
+export interface Contact {
+  id: string;
+  contact_user_id: string;
+  profile: {
+    name: string;
+    uid: string;
+    avatar_color: string;
+  };
+}
+
+/** Only owners and admins can post in a channel; everyone else subscribes and reads. */
+export type ConversationType = 'direct' | 'group' | 'channel';
+
+export type ConversationRole = 'owner' | 'admin' | 'member' | 'subscriber';
+
+export interface ConversationMember {
+  user_id: string;
+  role: ConversationRole;
+  profile: Contact['profile'];
+}
+
+export interface Conversation {
+  id: string;
+  type: ConversationType;
+  /** Group or channel title; direct conversations are named after the contact. */
+  title: string | null;
+  /** The other participant of a direct conversation; null for groups. */
+  contact: Contact | null;
+  /**
+   * Everyone in the conversation, including the current user. Empty for direct
+   * conversations; channel subscribers only see owners, admins and themselves.
+   */
+  members: ConversationMember[];
+  /** Channels only: the code others subscribe with. */
+  join_code: string | null;
+  /** Channels only. */
+  subscriber_count: number;
+}
+
+/** The latest message of a conversation, as shown in the conversation list. */
+export interface ConversationPreview {
+  conversation_id: string;
+  /** The other participant of a direct conversation; null for groups. */
+  contact_user_id: string | null;
+  /** Null until the conversation has a message. */
+  message_id: string | null;
+  sender_id: string | null;
+  /** Trimmed for the snippet; empty when the message was deleted. */
+  content: string;
+  deleted: boolean;
+  expires_at: string | null;
+  /** The latest message's time, or when the user joined a conversation without messages. */
+  last_activity_at: string;
+  /** The user's read position, shared across their devices; null until they first read. */
+  last_read_at: string | null;
+  /** Messages from others after the read position. */
+  unread_count: number;
+}
+
+/** How the user arranged a conversation in their own list; nobody else sees it. */
+export interface ConversationState {
+  conversation_id: string;
+  /** Pinned conversations stay at the top, in the order they were pinned. */
+  pinned_at: string | null;
+  /** Muted conversations show no unread badges and don't come back from the archive. */
+  muted: boolean;
+  /** When a mute ends by itself; null while muted means until unmuted. */
+  muted_until: string | null;
+  archived_at: string | null;
+}
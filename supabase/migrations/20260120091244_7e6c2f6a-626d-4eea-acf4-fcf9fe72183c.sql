@@ -0,0 +1,3 @@
+-- Support keyset pagination of a conversation by (created_at, id), newest first
+CREATE INDEX IF NOT EXISTS messages_sender_receiver_created_at_idx
+  ON public.messages (sender_id, receiver_id, created_at DESC, id DESC);
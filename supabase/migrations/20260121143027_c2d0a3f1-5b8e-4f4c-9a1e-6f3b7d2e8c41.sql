@@ -0,0 +1,63 @@
+-- Keep reply_to_id pointing at the original even after it is deleted, so replies can
+-- render an "original message was deleted" placeholder instead of silently losing the quote
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_reply_to_id_fkey;
+
+CREATE INDEX IF NOT EXISTS messages_reply_to_id_idx ON public.messages (reply_to_id);
+
+-- Returns one page of a 1:1 conversation, newest first, with the quoted message joined in.
+-- Pass the (created_at, id) of the oldest loaded message to fetch the previous page.
+CREATE OR REPLACE FUNCTION public.get_conversation_page(
+  p_contact_id UUID,
+  p_before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_before_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE(
+  id UUID,
+  sender_id UUID,
+  receiver_id UUID,
+  content TEXT,
+  reply_to_id UUID,
+  is_edited BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  reply_to_content TEXT,
+  reply_to_sender_id UUID,
+  reply_to_sender_name TEXT,
+  reply_to_deleted BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    m.receiver_id,
+    m.content,
+    m.reply_to_id,
+    m.is_edited,
+    m.created_at,
+    m.updated_at,
+    r.content,
+    r.sender_id,
+    rp.name,
+    (m.reply_to_id IS NOT NULL AND r.id IS NULL)
+  FROM public.messages m
+  LEFT JOIN public.messages r ON r.id = m.reply_to_id
+  LEFT JOIN public.profiles rp ON rp.user_id = r.sender_id
+  WHERE (
+      (m.sender_id = auth.uid() AND m.receiver_id = p_contact_id)
+      OR (m.sender_id = p_contact_id AND m.receiver_id = auth.uid())
+    )
+    AND (
+      p_before_created_at IS NULL
+      OR (m.created_at, m.id) < (p_before_created_at, p_before_id)
+    )
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+END;
+$$;
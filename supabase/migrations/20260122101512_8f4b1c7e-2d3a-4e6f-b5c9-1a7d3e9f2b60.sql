@@ -0,0 +1,102 @@
+-- Emoji reactions on messages
+CREATE TABLE public.message_reactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(message_id, user_id, emoji)
+);
+
+CREATE INDEX message_reactions_message_id_idx ON public.message_reactions (message_id);
+
+ALTER TABLE public.message_reactions ENABLE ROW LEVEL SECURITY;
+
+-- Only the two participants of the underlying message can see or add reactions
+CREATE OR REPLACE FUNCTION public.is_message_participant(p_message_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.messages
+    WHERE id = p_message_id
+      AND auth.uid() IN (sender_id, receiver_id)
+  );
+$$;
+
+CREATE POLICY "Participants can view reactions" ON public.message_reactions FOR SELECT TO authenticated USING (public.is_message_participant(message_id));
+CREATE POLICY "Participants can react" ON public.message_reactions FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id AND public.is_message_participant(message_id));
+CREATE POLICY "Users can remove own reactions" ON public.message_reactions FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.message_reactions;
+
+-- Return reactions with each conversation page so they don't need a query per message
+DROP FUNCTION IF EXISTS public.get_conversation_page(UUID, TIMESTAMP WITH TIME ZONE, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_conversation_page(
+  p_contact_id UUID,
+  p_before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_before_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE(
+  id UUID,
+  sender_id UUID,
+  receiver_id UUID,
+  content TEXT,
+  reply_to_id UUID,
+  is_edited BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  reply_to_content TEXT,
+  reply_to_sender_id UUID,
+  reply_to_sender_name TEXT,
+  reply_to_deleted BOOLEAN,
+  reactions JSONB
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    m.receiver_id,
+    m.content,
+    m.reply_to_id,
+    m.is_edited,
+    m.created_at,
+    m.updated_at,
+    r.content,
+    r.sender_id,
+    rp.name,
+    (m.reply_to_id IS NOT NULL AND r.id IS NULL),
+    COALESCE(
+      (
+        SELECT jsonb_agg(jsonb_build_object('id', mr.id, 'user_id', mr.user_id, 'emoji', mr.emoji) ORDER BY mr.created_at)
+        FROM public.message_reactions mr
+        WHERE mr.message_id = m.id
+      ),
+      '[]'::jsonb
+    )
+  FROM public.messages m
+  LEFT JOIN public.messages r ON r.id = m.reply_to_id
+  LEFT JOIN public.profiles rp ON rp.user_id = r.sender_id
+  WHERE (
+      (m.sender_id = auth.uid() AND m.receiver_id = p_contact_id)
+      OR (m.sender_id = p_contact_id AND m.receiver_id = auth.uid())
+    )
+    AND (
+      p_before_created_at IS NULL
+      OR (m.created_at, m.id) < (p_before_created_at, p_before_id)
+    )
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+END;
+$$;
@@ -0,0 +1,154 @@
+-- Delivery and read receipts, set by the receiver's client
+ALTER TABLE public.messages
+  ADD COLUMN delivered_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN read_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.profiles
+  ADD COLUMN send_read_receipts BOOLEAN NOT NULL DEFAULT true;
+
+-- Index for marking a user's undelivered messages
+CREATE INDEX messages_undelivered_idx ON public.messages (receiver_id) WHERE delivered_at IS NULL;
+
+CREATE POLICY "Receivers can mark messages" ON public.messages FOR UPDATE TO authenticated USING (auth.uid() = receiver_id) WITH CHECK (auth.uid() = receiver_id);
+
+-- RLS can't restrict columns, so the trigger does: receivers may only stamp the
+-- receipt columns (once, with the server clock), senders may change anything else
+CREATE OR REPLACE FUNCTION public.guard_message_receipts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() = OLD.receiver_id AND auth.uid() <> OLD.sender_id THEN
+    IF (NEW.id, NEW.sender_id, NEW.receiver_id, NEW.content, NEW.reply_to_id, NEW.is_edited, NEW.created_at)
+      IS DISTINCT FROM (OLD.id, OLD.sender_id, OLD.receiver_id, OLD.content, OLD.reply_to_id, OLD.is_edited, OLD.created_at) THEN
+      RAISE EXCEPTION 'Receivers can only update receipts';
+    END IF;
+
+    IF NEW.read_at IS DISTINCT FROM OLD.read_at AND NOT (
+      SELECT send_read_receipts FROM public.profiles WHERE user_id = auth.uid()
+    ) THEN
+      RAISE EXCEPTION 'Read receipts are turned off';
+    END IF;
+
+    NEW.delivered_at := CASE WHEN OLD.delivered_at IS NULL AND NEW.delivered_at IS NOT NULL THEN now() ELSE OLD.delivered_at END;
+    NEW.read_at := CASE WHEN OLD.read_at IS NULL AND NEW.read_at IS NOT NULL THEN now() ELSE OLD.read_at END;
+    -- Reading implies delivery
+    IF NEW.read_at IS NOT NULL AND NEW.delivered_at IS NULL THEN
+      NEW.delivered_at := NEW.read_at;
+    END IF;
+  ELSIF (NEW.delivered_at, NEW.read_at) IS DISTINCT FROM (OLD.delivered_at, OLD.read_at) THEN
+    RAISE EXCEPTION 'Only the receiver can update receipts';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_message_receipts_trigger
+  BEFORE UPDATE ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.guard_message_receipts();
+
+-- Marks everything addressed to the current user as delivered
+CREATE OR REPLACE FUNCTION public.mark_messages_delivered()
+RETURNS VOID
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  UPDATE public.messages
+  SET delivered_at = now()
+  WHERE receiver_id = auth.uid()
+    AND delivered_at IS NULL;
+$$;
+
+-- Marks the contact's messages up to the given timestamp as read
+CREATE OR REPLACE FUNCTION public.mark_messages_read(p_contact_id UUID, p_up_to TIMESTAMP WITH TIME ZONE)
+RETURNS VOID
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  UPDATE public.messages
+  SET read_at = now()
+  WHERE receiver_id = auth.uid()
+    AND sender_id = p_contact_id
+    AND created_at <= p_up_to
+    AND read_at IS NULL;
+$$;
+
+-- Return receipts with each conversation page
+DROP FUNCTION IF EXISTS public.get_conversation_page(UUID, TIMESTAMP WITH TIME ZONE, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_conversation_page(
+  p_contact_id UUID,
+  p_before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_before_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE(
+  id UUID,
+  sender_id UUID,
+  receiver_id UUID,
+  content TEXT,
+  reply_to_id UUID,
+  is_edited BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  reply_to_content TEXT,
+  reply_to_sender_id UUID,
+  reply_to_sender_name TEXT,
+  reply_to_deleted BOOLEAN,
+  reactions JSONB
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    m.receiver_id,
+    m.content,
+    m.reply_to_id,
+    m.is_edited,
+    m.created_at,
+    m.updated_at,
+    m.delivered_at,
+    m.read_at,
+    r.content,
+    r.sender_id,
+    rp.name,
+    (m.reply_to_id IS NOT NULL AND r.id IS NULL),
+    COALESCE(
+      (
+        SELECT jsonb_agg(jsonb_build_object('id', mr.id, 'user_id', mr.user_id, 'emoji', mr.emoji) ORDER BY mr.created_at)
+        FROM public.message_reactions mr
+        WHERE mr.message_id = m.id
+      ),
+      '[]'::jsonb
+    )
+  FROM public.messages m
+  LEFT JOIN public.messages r ON r.id = m.reply_to_id
+  LEFT JOIN public.profiles rp ON rp.user_id = r.sender_id
+  WHERE (
+      (m.sender_id = auth.uid() AND m.receiver_id = p_contact_id)
+      OR (m.sender_id = p_contact_id AND m.receiver_id = auth.uid())
+    )
+    AND (
+      p_before_created_at IS NULL
+      OR (m.created_at, m.id) < (p_before_created_at, p_before_id)
+    )
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+END;
+$$;
@@ -0,0 +1,55 @@
+-- Online presence privacy and last seen
+ALTER TABLE public.profiles
+  ADD COLUMN presence_visibility TEXT NOT NULL DEFAULT 'everyone' CHECK (presence_visibility IN ('everyone', 'nobody'));
+
+-- Set on the user's own contact row: hides the user's presence from that contact
+ALTER TABLE public.contacts
+  ADD COLUMN hide_presence BOOLEAN NOT NULL DEFAULT false;
+
+CREATE POLICY "Users can update own contacts" ON public.contacts FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+-- Kept out of profiles so contacts can't read it directly and bypass the privacy settings
+CREATE TABLE public.user_presence (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  last_seen_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_presence ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own presence" ON public.user_presence FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert own presence" ON public.user_presence FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update own presence" ON public.user_presence FOR UPDATE TO authenticated USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION public.touch_last_seen()
+RETURNS VOID
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  INSERT INTO public.user_presence (user_id, last_seen_at)
+  VALUES (auth.uid(), now())
+  ON CONFLICT (user_id) DO UPDATE SET last_seen_at = EXCLUDED.last_seen_at;
+$$;
+
+-- Last seen of the caller's contacts, leaving out anyone hiding their presence from the caller
+CREATE OR REPLACE FUNCTION public.get_last_seen(p_user_ids UUID[])
+RETURNS TABLE(user_id UUID, last_seen_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT up.user_id, up.last_seen_at
+  FROM public.user_presence up
+  JOIN public.profiles p ON p.user_id = up.user_id
+  WHERE up.user_id = ANY(p_user_ids)
+    AND p.presence_visibility = 'everyone'
+    AND EXISTS (
+      SELECT 1 FROM public.contacts c
+      WHERE c.user_id = auth.uid() AND c.contact_user_id = up.user_id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.contacts h
+      WHERE h.user_id = up.user_id AND h.contact_user_id = auth.uid() AND h.hide_presence
+    );
+$$;
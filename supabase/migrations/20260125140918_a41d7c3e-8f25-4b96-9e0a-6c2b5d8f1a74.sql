@@ -0,0 +1,34 @@
+-- Previous versions of edited messages
+CREATE TABLE public.message_edits (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE NOT NULL,
+  -- The content as it was before this edit
+  content TEXT NOT NULL,
+  edited_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX message_edits_message_id_idx ON public.message_edits (message_id, edited_at);
+
+ALTER TABLE public.message_edits ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by the trigger below, so there are no write policies
+CREATE POLICY "Participants can view edits" ON public.message_edits FOR SELECT TO authenticated USING (public.is_message_participant(message_id));
+
+CREATE OR REPLACE FUNCTION public.record_message_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.message_edits (message_id, content)
+  VALUES (OLD.id, OLD.content);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_message_edit_trigger
+  AFTER UPDATE OF content ON public.messages
+  FOR EACH ROW
+  WHEN (OLD.content IS DISTINCT FROM NEW.content)
+  EXECUTE FUNCTION public.record_message_edit();
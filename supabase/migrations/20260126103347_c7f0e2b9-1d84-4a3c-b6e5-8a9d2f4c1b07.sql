@@ -0,0 +1,176 @@
+-- Soft deletion: "delete for everyone" leaves a tombstone, "delete for me" hides a message for one user
+ALTER TABLE public.messages
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Messages are no longer hard-deleted by clients
+DROP POLICY IF EXISTS "Users can delete own messages" ON public.messages;
+
+-- Tombstones have no content
+CREATE OR REPLACE FUNCTION validate_message_content()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS NULL OR length(trim(NEW.content)) = 0 THEN
+    RAISE EXCEPTION 'Message content cannot be empty';
+  END IF;
+  
+  IF length(NEW.content) > 10000 THEN
+    RAISE EXCEPTION 'Message content exceeds maximum length of 10000 characters';
+  END IF;
+  
+  RETURN NEW;
+END;
+$$;
+
+-- Setting deleted_at turns the message into a tombstone; tombstones are final
+CREATE OR REPLACE FUNCTION public.handle_message_deletion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.deleted_at IS NOT NULL THEN
+    IF (NEW.content, NEW.is_edited, NEW.deleted_at) IS DISTINCT FROM (OLD.content, OLD.is_edited, OLD.deleted_at) THEN
+      RAISE EXCEPTION 'Deleted messages cannot be changed';
+    END IF;
+  ELSIF NEW.deleted_at IS NOT NULL THEN
+    IF auth.uid() IS DISTINCT FROM OLD.sender_id AND auth.uid() IS NOT NULL THEN
+      RAISE EXCEPTION 'Only the sender can delete a message for everyone';
+    END IF;
+    NEW.deleted_at := now();
+    NEW.content := '';
+    NEW.is_edited := false;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER handle_message_deletion_trigger
+  BEFORE UPDATE ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.handle_message_deletion();
+
+-- Clearing the content is not an edit
+DROP TRIGGER IF EXISTS record_message_edit_trigger ON public.messages;
+
+CREATE TRIGGER record_message_edit_trigger
+  AFTER UPDATE OF content ON public.messages
+  FOR EACH ROW
+  WHEN (OLD.content IS DISTINCT FROM NEW.content AND NEW.deleted_at IS NULL)
+  EXECUTE FUNCTION public.record_message_edit();
+
+-- Nothing of a deleted message's text or reactions survives
+CREATE OR REPLACE FUNCTION public.purge_deleted_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.message_edits WHERE message_id = NEW.id;
+  DELETE FROM public.message_reactions WHERE message_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER purge_deleted_message_trigger
+  AFTER UPDATE OF deleted_at ON public.messages
+  FOR EACH ROW
+  WHEN (OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL)
+  EXECUTE FUNCTION public.purge_deleted_message();
+
+CREATE TABLE public.hidden_messages (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, message_id)
+);
+
+ALTER TABLE public.hidden_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own hidden messages" ON public.hidden_messages FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Participants can hide messages" ON public.hidden_messages FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id AND public.is_message_participant(message_id));
+CREATE POLICY "Users can unhide messages" ON public.hidden_messages FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+-- Leave out messages hidden by the caller and treat tombstoned originals as deleted
+DROP FUNCTION IF EXISTS public.get_conversation_page(UUID, TIMESTAMP WITH TIME ZONE, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_conversation_page(
+  p_contact_id UUID,
+  p_before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_before_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE(
+  id UUID,
+  sender_id UUID,
+  receiver_id UUID,
+  content TEXT,
+  reply_to_id UUID,
+  is_edited BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  reply_to_content TEXT,
+  reply_to_sender_id UUID,
+  reply_to_sender_name TEXT,
+  reply_to_deleted BOOLEAN,
+  reactions JSONB
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    m.receiver_id,
+    m.content,
+    m.reply_to_id,
+    m.is_edited,
+    m.created_at,
+    m.updated_at,
+    m.delivered_at,
+    m.read_at,
+    m.deleted_at,
+    r.content,
+    r.sender_id,
+    rp.name,
+    (m.reply_to_id IS NOT NULL AND (r.id IS NULL OR r.deleted_at IS NOT NULL)),
+    COALESCE(
+      (
+        SELECT jsonb_agg(jsonb_build_object('id', mr.id, 'user_id', mr.user_id, 'emoji', mr.emoji) ORDER BY mr.created_at)
+        FROM public.message_reactions mr
+        WHERE mr.message_id = m.id
+      ),
+      '[]'::jsonb
+    )
+  FROM public.messages m
+  LEFT JOIN public.messages r ON r.id = m.reply_to_id
+  LEFT JOIN public.profiles rp ON rp.user_id = r.sender_id
+  WHERE (
+      (m.sender_id = auth.uid() AND m.receiver_id = p_contact_id)
+      OR (m.sender_id = p_contact_id AND m.receiver_id = auth.uid())
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.hidden_messages h
+      WHERE h.message_id = m.id AND h.user_id = auth.uid()
+    )
+    AND (
+      p_before_created_at IS NULL
+      OR (m.created_at, m.id) < (p_before_created_at, p_before_id)
+    )
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+END;
+$$;
@@ -0,0 +1,138 @@
+-- Forwarded messages keep their attribution in columns rather than in the text
+ALTER TABLE public.messages
+  ADD COLUMN forwarded_from_message_id UUID,
+  ADD COLUMN forwarded_from_name TEXT;
+
+-- The attribution and content always come from the source message, so neither can be forged
+CREATE OR REPLACE FUNCTION public.set_forward_attribution()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  source RECORD;
+BEGIN
+  IF NEW.forwarded_from_message_id IS NULL THEN
+    NEW.forwarded_from_name := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT m.content, m.deleted_at, COALESCE(m.forwarded_from_name, p.name, 'Unknown') AS author
+  INTO source
+  FROM public.messages m
+  LEFT JOIN public.profiles p ON p.user_id = m.sender_id
+  WHERE m.id = NEW.forwarded_from_message_id
+    AND auth.uid() IN (m.sender_id, m.receiver_id);
+
+  IF NOT FOUND OR source.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Message to forward not found';
+  END IF;
+
+  NEW.content := source.content;
+  -- Forwarding a forward credits the original author
+  NEW.forwarded_from_name := source.author;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_forward_attribution_trigger
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.set_forward_attribution();
+
+-- Attribution can't be changed afterwards
+CREATE OR REPLACE FUNCTION public.guard_forward_attribution()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.forwarded_from_message_id, NEW.forwarded_from_name) IS DISTINCT FROM (OLD.forwarded_from_message_id, OLD.forwarded_from_name) THEN
+    RAISE EXCEPTION 'Forward attribution cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_forward_attribution_trigger
+  BEFORE UPDATE ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.guard_forward_attribution();
+
+DROP FUNCTION IF EXISTS public.get_conversation_page(UUID, TIMESTAMP WITH TIME ZONE, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_conversation_page(
+  p_contact_id UUID,
+  p_before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_before_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE(
+  id UUID,
+  sender_id UUID,
+  receiver_id UUID,
+  content TEXT,
+  reply_to_id UUID,
+  is_edited BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  forwarded_from_name TEXT,
+  reply_to_content TEXT,
+  reply_to_sender_id UUID,
+  reply_to_sender_name TEXT,
+  reply_to_deleted BOOLEAN,
+  reactions JSONB
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    m.receiver_id,
+    m.content,
+    m.reply_to_id,
+    m.is_edited,
+    m.created_at,
+    m.updated_at,
+    m.delivered_at,
+    m.read_at,
+    m.deleted_at,
+    m.forwarded_from_name,
+    r.content,
+    r.sender_id,
+    rp.name,
+    (m.reply_to_id IS NOT NULL AND (r.id IS NULL OR r.deleted_at IS NOT NULL)),
+    COALESCE(
+      (
+        SELECT jsonb_agg(jsonb_build_object('id', mr.id, 'user_id', mr.user_id, 'emoji', mr.emoji) ORDER BY mr.created_at)
+        FROM public.message_reactions mr
+        WHERE mr.message_id = m.id
+      ),
+      '[]'::jsonb
+    )
+  FROM public.messages m
+  LEFT JOIN public.messages r ON r.id = m.reply_to_id
+  LEFT JOIN public.profiles rp ON rp.user_id = r.sender_id
+  WHERE (
+      (m.sender_id = auth.uid() AND m.receiver_id = p_contact_id)
+      OR (m.sender_id = p_contact_id AND m.receiver_id = auth.uid())
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.hidden_messages h
+      WHERE h.message_id = m.id AND h.user_id = auth.uid()
+    )
+    AND (
+      p_before_created_at IS NULL
+      OR (m.created_at, m.id) < (p_before_created_at, p_before_id)
+    )
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+END;
+$$;
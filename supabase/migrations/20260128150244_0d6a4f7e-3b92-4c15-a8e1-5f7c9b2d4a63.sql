@@ -0,0 +1,214 @@
+-- Pinned messages, plus system notes in the timeline when a message is pinned or unpinned
+ALTER TABLE public.messages
+  ADD COLUMN kind TEXT NOT NULL DEFAULT 'text' CHECK (kind IN ('text', 'pin', 'unpin'));
+
+-- System notes are only written by the pin triggers and can't be changed afterwards
+CREATE OR REPLACE FUNCTION validate_message_content()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.kind <> 'text' OR (TG_OP = 'UPDATE' AND OLD.kind <> 'text') THEN
+    IF TG_OP = 'INSERT' AND current_setting('pagion.system_message', true) IS DISTINCT FROM 'on' THEN
+      RAISE EXCEPTION 'System messages cannot be sent directly';
+    END IF;
+    IF TG_OP = 'UPDATE' AND (NEW.kind, NEW.content, NEW.deleted_at) IS DISTINCT FROM (OLD.kind, OLD.content, OLD.deleted_at) THEN
+      RAISE EXCEPTION 'System messages cannot be changed';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.content IS NULL OR length(trim(NEW.content)) = 0 THEN
+    RAISE EXCEPTION 'Message content cannot be empty';
+  END IF;
+  
+  IF length(NEW.content) > 10000 THEN
+    RAISE EXCEPTION 'Message content exceeds maximum length of 10000 characters';
+  END IF;
+  
+  RETURN NEW;
+END;
+$$;
+
+CREATE TABLE public.pinned_messages (
+  message_id UUID PRIMARY KEY REFERENCES public.messages(id) ON DELETE CASCADE,
+  pinned_by UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.pinned_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view pins" ON public.pinned_messages FOR SELECT TO authenticated USING (public.is_message_participant(message_id));
+CREATE POLICY "Participants can pin messages" ON public.pinned_messages FOR INSERT TO authenticated WITH CHECK (auth.uid() = pinned_by AND public.is_message_participant(message_id));
+CREATE POLICY "Participants can unpin messages" ON public.pinned_messages FOR DELETE TO authenticated USING (public.is_message_participant(message_id));
+
+-- Posts a 'pin' or 'unpin' note from the current user into the pinned message's conversation
+CREATE OR REPLACE FUNCTION public.post_pin_note()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  pinned RECORD;
+  pin_message_id UUID := CASE WHEN TG_OP = 'INSERT' THEN NEW.message_id ELSE OLD.message_id END;
+BEGIN
+  SELECT m.sender_id, m.receiver_id, m.kind, m.deleted_at
+  INTO pinned
+  FROM public.messages m
+  WHERE m.id = pin_message_id;
+
+  IF TG_OP = 'INSERT' AND (pinned.kind <> 'text' OR pinned.deleted_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'This message cannot be pinned';
+  END IF;
+
+  -- No note when the pin goes away with its message, or without a user to attribute it to
+  IF NOT FOUND OR pinned.deleted_at IS NOT NULL OR auth.uid() IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM set_config('pagion.system_message', 'on', true);
+  INSERT INTO public.messages (sender_id, receiver_id, content, reply_to_id, kind)
+  VALUES (
+    auth.uid(),
+    CASE WHEN pinned.sender_id = auth.uid() THEN pinned.receiver_id ELSE pinned.sender_id END,
+    '',
+    pin_message_id,
+    CASE WHEN TG_OP = 'INSERT' THEN 'pin' ELSE 'unpin' END
+  );
+  PERFORM set_config('pagion.system_message', 'off', true);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER post_pin_note_trigger
+  AFTER INSERT OR DELETE ON public.pinned_messages
+  FOR EACH ROW EXECUTE FUNCTION public.post_pin_note();
+
+-- Deleting a message for everyone also unpins it
+CREATE OR REPLACE FUNCTION public.purge_deleted_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.message_edits WHERE message_id = NEW.id;
+  DELETE FROM public.message_reactions WHERE message_id = NEW.id;
+  DELETE FROM public.pinned_messages WHERE message_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+-- Pins of a conversation, most recently pinned first
+CREATE OR REPLACE FUNCTION public.get_conversation_pins(p_contact_id UUID)
+RETURNS TABLE(
+  message_id UUID,
+  pinned_by UUID,
+  pinned_at TIMESTAMP WITH TIME ZONE,
+  sender_id UUID,
+  content TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT p.message_id, p.pinned_by, p.created_at, m.sender_id, m.content, m.created_at
+  FROM public.pinned_messages p
+  JOIN public.messages m ON m.id = p.message_id
+  WHERE (
+      (m.sender_id = auth.uid() AND m.receiver_id = p_contact_id)
+      OR (m.sender_id = p_contact_id AND m.receiver_id = auth.uid())
+    )
+    AND m.deleted_at IS NULL
+  ORDER BY p.created_at DESC;
+$$;
+
+DROP FUNCTION IF EXISTS public.get_conversation_page(UUID, TIMESTAMP WITH TIME ZONE, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_conversation_page(
+  p_contact_id UUID,
+  p_before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_before_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE(
+  id UUID,
+  sender_id UUID,
+  receiver_id UUID,
+  content TEXT,
+  kind TEXT,
+  reply_to_id UUID,
+  is_edited BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  forwarded_from_name TEXT,
+  reply_to_content TEXT,
+  reply_to_sender_id UUID,
+  reply_to_sender_name TEXT,
+  reply_to_deleted BOOLEAN,
+  reactions JSONB
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    m.receiver_id,
+    m.content,
+    m.kind,
+    m.reply_to_id,
+    m.is_edited,
+    m.created_at,
+    m.updated_at,
+    m.delivered_at,
+    m.read_at,
+    m.deleted_at,
+    m.forwarded_from_name,
+    r.content,
+    r.sender_id,
+    rp.name,
+    (m.reply_to_id IS NOT NULL AND (r.id IS NULL OR r.deleted_at IS NOT NULL)),
+    COALESCE(
+      (
+        SELECT jsonb_agg(jsonb_build_object('id', mr.id, 'user_id', mr.user_id, 'emoji', mr.emoji) ORDER BY mr.created_at)
+        FROM public.message_reactions mr
+        WHERE mr.message_id = m.id
+      ),
+      '[]'::jsonb
+    )
+  FROM public.messages m
+  LEFT JOIN public.messages r ON r.id = m.reply_to_id
+  LEFT JOIN public.profiles rp ON rp.user_id = r.sender_id
+  WHERE (
+      (m.sender_id = auth.uid() AND m.receiver_id = p_contact_id)
+      OR (m.sender_id = p_contact_id AND m.receiver_id = auth.uid())
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.hidden_messages h
+      WHERE h.message_id = m.id AND h.user_id = auth.uid()
+    )
+    AND (
+      p_before_created_at IS NULL
+      OR (m.created_at, m.id) < (p_before_created_at, p_before_id)
+    )
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+END;
+$$;
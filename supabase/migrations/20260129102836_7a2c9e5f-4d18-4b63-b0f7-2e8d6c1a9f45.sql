@@ -0,0 +1,151 @@
+-- Private per-user stars on messages
+CREATE TABLE public.starred_messages (
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, message_id)
+);
+
+ALTER TABLE public.starred_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own stars" ON public.starred_messages FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Participants can star messages" ON public.starred_messages FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id AND public.is_message_participant(message_id));
+CREATE POLICY "Users can unstar messages" ON public.starred_messages FOR DELETE TO authenticated USING (auth.uid() = user_id);
+
+-- Deleting a message for everyone also removes it from both users' starred lists
+CREATE OR REPLACE FUNCTION public.purge_deleted_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.message_edits WHERE message_id = NEW.id;
+  DELETE FROM public.message_reactions WHERE message_id = NEW.id;
+  DELETE FROM public.pinned_messages WHERE message_id = NEW.id;
+  DELETE FROM public.starred_messages WHERE message_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+-- The caller's starred messages across all conversations, most recently starred first
+CREATE OR REPLACE FUNCTION public.get_starred_messages()
+RETURNS TABLE(
+  message_id UUID,
+  contact_user_id UUID,
+  sender_id UUID,
+  content TEXT,
+  forwarded_from_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  starred_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    m.id,
+    CASE WHEN m.sender_id = auth.uid() THEN m.receiver_id ELSE m.sender_id END,
+    m.sender_id,
+    m.content,
+    m.forwarded_from_name,
+    m.created_at,
+    s.created_at
+  FROM public.starred_messages s
+  JOIN public.messages m ON m.id = s.message_id
+  WHERE s.user_id = auth.uid()
+    AND m.deleted_at IS NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.hidden_messages h
+      WHERE h.message_id = m.id AND h.user_id = auth.uid()
+    )
+  ORDER BY s.created_at DESC;
+$$;
+
+-- Return the caller's star with each message
+DROP FUNCTION IF EXISTS public.get_conversation_page(UUID, TIMESTAMP WITH TIME ZONE, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_conversation_page(
+  p_contact_id UUID,
+  p_before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_before_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE(
+  id UUID,
+  sender_id UUID,
+  receiver_id UUID,
+  content TEXT,
+  kind TEXT,
+  reply_to_id UUID,
+  is_edited BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  forwarded_from_name TEXT,
+  reply_to_content TEXT,
+  reply_to_sender_id UUID,
+  reply_to_sender_name TEXT,
+  reply_to_deleted BOOLEAN,
+  reactions JSONB,
+  is_starred BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    m.receiver_id,
+    m.content,
+    m.kind,
+    m.reply_to_id,
+    m.is_edited,
+    m.created_at,
+    m.updated_at,
+    m.delivered_at,
+    m.read_at,
+    m.deleted_at,
+    m.forwarded_from_name,
+    r.content,
+    r.sender_id,
+    rp.name,
+    (m.reply_to_id IS NOT NULL AND (r.id IS NULL OR r.deleted_at IS NOT NULL)),
+    COALESCE(
+      (
+        SELECT jsonb_agg(jsonb_build_object('id', mr.id, 'user_id', mr.user_id, 'emoji', mr.emoji) ORDER BY mr.created_at)
+        FROM public.message_reactions mr
+        WHERE mr.message_id = m.id
+      ),
+      '[]'::jsonb
+    ),
+    EXISTS (
+      SELECT 1 FROM public.starred_messages s
+      WHERE s.message_id = m.id AND s.user_id = auth.uid()
+    )
+  FROM public.messages m
+  LEFT JOIN public.messages r ON r.id = m.reply_to_id
+  LEFT JOIN public.profiles rp ON rp.user_id = r.sender_id
+  WHERE (
+      (m.sender_id = auth.uid() AND m.receiver_id = p_contact_id)
+      OR (m.sender_id = p_contact_id AND m.receiver_id = auth.uid())
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.hidden_messages h
+      WHERE h.message_id = m.id AND h.user_id = auth.uid()
+    )
+    AND (
+      p_before_created_at IS NULL
+      OR (m.created_at, m.id) < (p_before_created_at, p_before_id)
+    )
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+END;
+$$;
@@ -0,0 +1,102 @@
+-- Messages written now and sent later; the dispatcher below turns due rows into real messages
+CREATE TABLE public.scheduled_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  sender_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  receiver_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  content TEXT NOT NULL,
+  reply_to_id UUID,
+  send_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX scheduled_messages_send_at_idx ON public.scheduled_messages (send_at);
+
+ALTER TABLE public.scheduled_messages ENABLE ROW LEVEL SECURITY;
+
+-- Pending messages are private to their sender until they go out
+CREATE POLICY "Users can view own scheduled messages" ON public.scheduled_messages FOR SELECT TO authenticated USING (auth.uid() = sender_id);
+CREATE POLICY "Users can schedule messages" ON public.scheduled_messages FOR INSERT TO authenticated WITH CHECK (auth.uid() = sender_id);
+CREATE POLICY "Users can edit own scheduled messages" ON public.scheduled_messages FOR UPDATE TO authenticated USING (auth.uid() = sender_id) WITH CHECK (auth.uid() = sender_id);
+CREATE POLICY "Users can cancel own scheduled messages" ON public.scheduled_messages FOR DELETE TO authenticated USING (auth.uid() = sender_id);
+
+CREATE TRIGGER update_scheduled_messages_updated_at BEFORE UPDATE ON public.scheduled_messages FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Same content rules as messages, checked up front so a due message never fails to send
+CREATE OR REPLACE FUNCTION public.validate_scheduled_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS NULL OR length(trim(NEW.content)) = 0 THEN
+    RAISE EXCEPTION 'Message content cannot be empty';
+  END IF;
+
+  IF length(NEW.content) > 10000 THEN
+    RAISE EXCEPTION 'Message content exceeds maximum length of 10000 characters';
+  END IF;
+
+  IF (TG_OP = 'INSERT' OR NEW.send_at IS DISTINCT FROM OLD.send_at) AND NEW.send_at <= now() THEN
+    RAISE EXCEPTION 'Scheduled time must be in the future';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (NEW.sender_id, NEW.receiver_id) IS DISTINCT FROM (OLD.sender_id, OLD.receiver_id) THEN
+    RAISE EXCEPTION 'The recipient of a scheduled message cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_scheduled_message_trigger
+  BEFORE INSERT OR UPDATE ON public.scheduled_messages
+  FOR EACH ROW EXECUTE FUNCTION public.validate_scheduled_message();
+
+-- Sends every due message, oldest first. The message keeps the scheduled row's id, so
+-- clients can tell which pending entry went out, and a retry can never post it twice.
+CREATE OR REPLACE FUNCTION public.dispatch_scheduled_messages()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  due RECORD;
+  dispatched INTEGER := 0;
+BEGIN
+  FOR due IN
+    WITH claimed AS (
+      DELETE FROM public.scheduled_messages
+      WHERE id IN (
+        SELECT id FROM public.scheduled_messages
+        WHERE send_at <= now()
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id, sender_id, receiver_id, content, reply_to_id, send_at, created_at
+    )
+    SELECT * FROM claimed ORDER BY send_at, created_at
+  LOOP
+    -- One row at a time with the wall clock, so messages due together keep their order
+    INSERT INTO public.messages (id, sender_id, receiver_id, content, reply_to_id, created_at)
+    VALUES (due.id, due.sender_id, due.receiver_id, due.content, due.reply_to_id, clock_timestamp())
+    ON CONFLICT (id) DO NOTHING;
+    dispatched := dispatched + 1;
+  END LOOP;
+
+  RETURN dispatched;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.dispatch_scheduled_messages() FROM PUBLIC, anon, authenticated;
+
+-- Run the dispatcher every minute
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule(
+  'dispatch-scheduled-messages',
+  '* * * * *',
+  'SELECT public.dispatch_scheduled_messages()'
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.scheduled_messages;
@@ -0,0 +1,270 @@
+-- Disappearing messages: a per-conversation timer that stamps new messages with an expiry
+CREATE TABLE public.conversation_settings (
+  -- The two participants, in a fixed order so each conversation has exactly one row
+  user_low UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  user_high UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  message_ttl_seconds INTEGER CHECK (message_ttl_seconds IN (3600, 86400, 604800)),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_low, user_high),
+  CHECK (user_low < user_high)
+);
+
+ALTER TABLE public.conversation_settings ENABLE ROW LEVEL SECURITY;
+
+-- Either participant can see and change the conversation's settings
+CREATE POLICY "Participants can view conversation settings" ON public.conversation_settings FOR SELECT TO authenticated USING (auth.uid() IN (user_low, user_high));
+CREATE POLICY "Participants can create conversation settings" ON public.conversation_settings FOR INSERT TO authenticated WITH CHECK (auth.uid() IN (user_low, user_high) AND auth.uid() = updated_by);
+CREATE POLICY "Participants can change conversation settings" ON public.conversation_settings FOR UPDATE TO authenticated USING (auth.uid() IN (user_low, user_high)) WITH CHECK (auth.uid() IN (user_low, user_high) AND auth.uid() = updated_by);
+
+CREATE TRIGGER update_conversation_settings_updated_at BEFORE UPDATE ON public.conversation_settings FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.messages ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX messages_expires_at_idx ON public.messages (expires_at) WHERE expires_at IS NOT NULL;
+
+-- 'timer' notes record a timer change; their content is the new timer in seconds, '0' when turned off
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_kind_check;
+ALTER TABLE public.messages ADD CONSTRAINT messages_kind_check CHECK (kind IN ('text', 'pin', 'unpin', 'timer'));
+
+-- New messages take their expiry from the conversation's timer; it can't be changed afterwards
+CREATE OR REPLACE FUNCTION public.set_message_expiry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.expires_at := OLD.expires_at;
+    RETURN NEW;
+  END IF;
+
+  NEW.expires_at := NULL;
+  IF NEW.kind = 'text' THEN
+    SELECT NEW.created_at + make_interval(secs => s.message_ttl_seconds)
+    INTO NEW.expires_at
+    FROM public.conversation_settings s
+    WHERE s.user_low = LEAST(NEW.sender_id, NEW.receiver_id)
+      AND s.user_high = GREATEST(NEW.sender_id, NEW.receiver_id)
+      AND s.message_ttl_seconds IS NOT NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_message_expiry_trigger
+  BEFORE INSERT OR UPDATE ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.set_message_expiry();
+
+-- Posts a 'timer' note from the current user whenever the timer changes
+CREATE OR REPLACE FUNCTION public.post_timer_note()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.message_ttl_seconds IS NOT DISTINCT FROM OLD.message_ttl_seconds THEN
+    RETURN NULL;
+  END IF;
+  IF TG_OP = 'INSERT' AND NEW.message_ttl_seconds IS NULL THEN
+    RETURN NULL;
+  END IF;
+  IF auth.uid() IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM set_config('pagion.system_message', 'on', true);
+  INSERT INTO public.messages (sender_id, receiver_id, content, kind)
+  VALUES (
+    auth.uid(),
+    CASE WHEN NEW.user_low = auth.uid() THEN NEW.user_high ELSE NEW.user_low END,
+    COALESCE(NEW.message_ttl_seconds, 0)::TEXT,
+    'timer'
+  );
+  PERFORM set_config('pagion.system_message', 'off', true);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER post_timer_note_trigger
+  AFTER INSERT OR UPDATE ON public.conversation_settings
+  FOR EACH ROW EXECUTE FUNCTION public.post_timer_note();
+
+-- Hard-deletes expired messages; clients already hide them once they expire
+CREATE OR REPLACE FUNCTION public.purge_expired_messages()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  DELETE FROM public.messages WHERE expires_at <= now();
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.purge_expired_messages() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'purge-expired-messages',
+  '* * * * *',
+  'SELECT public.purge_expired_messages()'
+);
+
+-- Expired messages are gone as far as readers are concerned, even before the purge runs
+CREATE OR REPLACE FUNCTION public.get_conversation_pins(p_contact_id UUID)
+RETURNS TABLE(
+  message_id UUID,
+  pinned_by UUID,
+  pinned_at TIMESTAMP WITH TIME ZONE,
+  sender_id UUID,
+  content TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT p.message_id, p.pinned_by, p.created_at, m.sender_id, m.content, m.created_at
+  FROM public.pinned_messages p
+  JOIN public.messages m ON m.id = p.message_id
+  WHERE (
+      (m.sender_id = auth.uid() AND m.receiver_id = p_contact_id)
+      OR (m.sender_id = p_contact_id AND m.receiver_id = auth.uid())
+    )
+    AND m.deleted_at IS NULL
+    AND (m.expires_at IS NULL OR m.expires_at > now())
+  ORDER BY p.created_at DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_starred_messages()
+RETURNS TABLE(
+  message_id UUID,
+  contact_user_id UUID,
+  sender_id UUID,
+  content TEXT,
+  forwarded_from_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  starred_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    m.id,
+    CASE WHEN m.sender_id = auth.uid() THEN m.receiver_id ELSE m.sender_id END,
+    m.sender_id,
+    m.content,
+    m.forwarded_from_name,
+    m.created_at,
+    s.created_at
+  FROM public.starred_messages s
+  JOIN public.messages m ON m.id = s.message_id
+  WHERE s.user_id = auth.uid()
+    AND m.deleted_at IS NULL
+    AND (m.expires_at IS NULL OR m.expires_at > now())
+    AND NOT EXISTS (
+      SELECT 1 FROM public.hidden_messages h
+      WHERE h.message_id = m.id AND h.user_id = auth.uid()
+    )
+  ORDER BY s.created_at DESC;
+$$;
+
+DROP FUNCTION IF EXISTS public.get_conversation_page(UUID, TIMESTAMP WITH TIME ZONE, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_conversation_page(
+  p_contact_id UUID,
+  p_before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_before_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE(
+  id UUID,
+  sender_id UUID,
+  receiver_id UUID,
+  content TEXT,
+  kind TEXT,
+  reply_to_id UUID,
+  is_edited BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  forwarded_from_name TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  reply_to_content TEXT,
+  reply_to_sender_id UUID,
+  reply_to_sender_name TEXT,
+  reply_to_deleted BOOLEAN,
+  reactions JSONB,
+  is_starred BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    m.receiver_id,
+    m.content,
+    m.kind,
+    m.reply_to_id,
+    m.is_edited,
+    m.created_at,
+    m.updated_at,
+    m.delivered_at,
+    m.read_at,
+    m.deleted_at,
+    m.forwarded_from_name,
+    m.expires_at,
+    r.content,
+    r.sender_id,
+    rp.name,
+    (m.reply_to_id IS NOT NULL AND (r.id IS NULL OR r.deleted_at IS NOT NULL OR r.expires_at <= now())),
+    COALESCE(
+      (
+        SELECT jsonb_agg(jsonb_build_object('id', mr.id, 'user_id', mr.user_id, 'emoji', mr.emoji) ORDER BY mr.created_at)
+        FROM public.message_reactions mr
+        WHERE mr.message_id = m.id
+      ),
+      '[]'::jsonb
+    ),
+    EXISTS (
+      SELECT 1 FROM public.starred_messages s
+      WHERE s.message_id = m.id AND s.user_id = auth.uid()
+    )
+  FROM public.messages m
+  LEFT JOIN public.messages r ON r.id = m.reply_to_id
+  LEFT JOIN public.profiles rp ON rp.user_id = r.sender_id
+  WHERE (
+      (m.sender_id = auth.uid() AND m.receiver_id = p_contact_id)
+      OR (m.sender_id = p_contact_id AND m.receiver_id = auth.uid())
+    )
+    AND (m.expires_at IS NULL OR m.expires_at > now())
+    AND NOT EXISTS (
+      SELECT 1 FROM public.hidden_messages h
+      WHERE h.message_id = m.id AND h.user_id = auth.uid()
+    )
+    AND (
+      p_before_created_at IS NULL
+      OR (m.created_at, m.id) < (p_before_created_at, p_before_id)
+    )
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+END;
+$$;
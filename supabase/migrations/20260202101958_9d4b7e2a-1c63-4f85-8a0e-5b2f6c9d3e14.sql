@@ -0,0 +1,631 @@
+-- Conversations: every message now belongs to one, so chats can have more than two people.
+-- Direct conversations exist once per pair of users and are created on demand; groups
+-- have a title and an explicit member list.
+CREATE TABLE public.conversations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  type TEXT NOT NULL CHECK (type IN ('direct', 'group')),
+  title TEXT,
+  -- The two participants of a direct conversation, in a fixed order so each pair has one
+  user_low UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  user_high UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  message_ttl_seconds INTEGER CHECK (message_ttl_seconds IN (3600, 86400, 604800)),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_low, user_high),
+  CHECK (
+    (type = 'direct' AND title IS NULL AND user_low IS NOT NULL AND user_high IS NOT NULL AND user_low <= user_high)
+    OR (type <> 'direct' AND user_low IS NULL AND user_high IS NULL AND length(trim(title)) BETWEEN 1 AND 100)
+  )
+);
+
+CREATE TABLE public.conversation_members (
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('owner', 'admin', 'member')),
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+CREATE INDEX conversation_members_user_id_idx ON public.conversation_members (user_id);
+
+ALTER TABLE public.conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.conversation_members ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_conversation_member(p_conversation_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversation_members
+    WHERE conversation_id = p_conversation_id
+      AND user_id = auth.uid()
+  );
+$$;
+
+-- Members see the conversation and each other; membership only changes through the functions below
+CREATE POLICY "Members can view conversations" ON public.conversations FOR SELECT TO authenticated USING (public.is_conversation_member(id));
+CREATE POLICY "Members can view members" ON public.conversation_members FOR SELECT TO authenticated USING (public.is_conversation_member(conversation_id));
+
+CREATE TRIGGER update_conversations_updated_at BEFORE UPDATE ON public.conversations FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The direct conversation between two users, created with both as members if it doesn't exist yet
+CREATE OR REPLACE FUNCTION public.ensure_direct_conversation(p_user_a UUID, p_user_b UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  conversation UUID;
+BEGIN
+  INSERT INTO public.conversations (type, user_low, user_high, created_by)
+  VALUES ('direct', LEAST(p_user_a, p_user_b), GREATEST(p_user_a, p_user_b), p_user_a)
+  ON CONFLICT (user_low, user_high) DO NOTHING
+  RETURNING id INTO conversation;
+
+  IF conversation IS NULL THEN
+    SELECT id INTO conversation
+    FROM public.conversations
+    WHERE user_low = LEAST(p_user_a, p_user_b)
+      AND user_high = GREATEST(p_user_a, p_user_b);
+  ELSE
+    INSERT INTO public.conversation_members (conversation_id, user_id)
+    VALUES (conversation, p_user_a), (conversation, p_user_b)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN conversation;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.ensure_direct_conversation(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_direct_conversation(p_contact_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  RETURN public.ensure_direct_conversation(auth.uid(), p_contact_id);
+END;
+$$;
+
+-- Creates a group owned by the caller; everyone else must be one of the caller's contacts
+CREATE OR REPLACE FUNCTION public.create_group(p_title TEXT, p_member_ids UUID[])
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  conversation UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM unnest(p_member_ids) AS m(id) WHERE m.id <> auth.uid()) THEN
+    RAISE EXCEPTION 'A group needs at least one other member';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_member_ids) AS m(id)
+    WHERE m.id <> auth.uid()
+      AND NOT EXISTS (
+        SELECT 1 FROM public.contacts c
+        WHERE c.user_id = auth.uid() AND c.contact_user_id = m.id
+      )
+  ) THEN
+    RAISE EXCEPTION 'Groups can only include your contacts';
+  END IF;
+
+  INSERT INTO public.conversations (type, title, created_by)
+  VALUES ('group', trim(p_title), auth.uid())
+  RETURNING id INTO conversation;
+
+  INSERT INTO public.conversation_members (conversation_id, user_id, role)
+  VALUES (conversation, auth.uid(), 'owner');
+
+  INSERT INTO public.conversation_members (conversation_id, user_id)
+  SELECT DISTINCT conversation, m.id
+  FROM unnest(p_member_ids) AS m(id)
+  WHERE m.id <> auth.uid();
+
+  RETURN conversation;
+END;
+$$;
+
+-- Existing chats become direct conversations, keeping any disappearing-messages timer
+INSERT INTO public.conversations (type, user_low, user_high, created_at)
+SELECT 'direct', LEAST(sender_id, receiver_id), GREATEST(sender_id, receiver_id), min(created_at)
+FROM public.messages
+GROUP BY LEAST(sender_id, receiver_id), GREATEST(sender_id, receiver_id);
+
+INSERT INTO public.conversations (type, user_low, user_high)
+SELECT 'direct', user_low, user_high
+FROM public.conversation_settings
+ON CONFLICT (user_low, user_high) DO NOTHING;
+
+UPDATE public.conversations c
+SET message_ttl_seconds = s.message_ttl_seconds
+FROM public.conversation_settings s
+WHERE c.user_low = s.user_low AND c.user_high = s.user_high;
+
+INSERT INTO public.conversation_members (conversation_id, user_id)
+SELECT id, user_low FROM public.conversations
+UNION
+SELECT id, user_high FROM public.conversations;
+
+DROP TABLE public.conversation_settings;
+
+ALTER TABLE public.messages ADD COLUMN conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE;
+
+-- A bookkeeping change; keep it out of updated_at, edit history and the other update triggers
+ALTER TABLE public.messages DISABLE TRIGGER USER;
+
+UPDATE public.messages m
+SET conversation_id = c.id
+FROM public.conversations c
+WHERE c.user_low = LEAST(m.sender_id, m.receiver_id)
+  AND c.user_high = GREATEST(m.sender_id, m.receiver_id);
+
+ALTER TABLE public.messages ENABLE TRIGGER USER;
+
+-- Group messages have no single receiver
+ALTER TABLE public.messages
+  ALTER COLUMN conversation_id SET NOT NULL,
+  ALTER COLUMN receiver_id DROP NOT NULL;
+
+CREATE INDEX messages_conversation_id_idx ON public.messages (conversation_id, created_at DESC, id DESC);
+
+-- Direct messages are still addressed by receiver and get their conversation from the pair;
+-- group messages have no receiver and name their conversation. Neither can move afterwards.
+CREATE OR REPLACE FUNCTION public.assign_message_conversation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF (NEW.conversation_id, NEW.sender_id, NEW.receiver_id) IS DISTINCT FROM (OLD.conversation_id, OLD.sender_id, OLD.receiver_id) THEN
+      RAISE EXCEPTION 'Messages cannot be moved to another conversation';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.receiver_id IS NOT NULL THEN
+    NEW.conversation_id := public.ensure_direct_conversation(NEW.sender_id, NEW.receiver_id);
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE id = NEW.conversation_id AND type <> 'direct'
+  ) THEN
+    RAISE EXCEPTION 'Messages need a receiver or a group conversation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_message_conversation_trigger
+  BEFORE INSERT OR UPDATE ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.assign_message_conversation();
+
+-- Access follows conversation membership
+DROP POLICY "Users can view their messages" ON public.messages;
+DROP POLICY "Users can send messages" ON public.messages;
+
+CREATE POLICY "Members can view messages" ON public.messages FOR SELECT TO authenticated USING (public.is_conversation_member(conversation_id));
+-- A direct message creates its conversation on the way in, so only group messages need existing membership
+CREATE POLICY "Members can send messages" ON public.messages FOR INSERT TO authenticated WITH CHECK (auth.uid() = sender_id AND (receiver_id IS NOT NULL OR public.is_conversation_member(conversation_id)));
+
+CREATE OR REPLACE FUNCTION public.is_message_participant(p_message_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.messages m
+    JOIN public.conversation_members cm ON cm.conversation_id = m.conversation_id
+    WHERE m.id = p_message_id
+      AND cm.user_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_forward_attribution()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  source RECORD;
+BEGIN
+  IF NEW.forwarded_from_message_id IS NULL THEN
+    NEW.forwarded_from_name := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT m.content, m.deleted_at, COALESCE(m.forwarded_from_name, p.name, 'Unknown') AS author
+  INTO source
+  FROM public.messages m
+  LEFT JOIN public.profiles p ON p.user_id = m.sender_id
+  WHERE m.id = NEW.forwarded_from_message_id
+    AND public.is_conversation_member(m.conversation_id);
+
+  IF NOT FOUND OR source.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Message to forward not found';
+  END IF;
+
+  NEW.content := source.content;
+  -- Forwarding a forward credits the original author
+  NEW.forwarded_from_name := source.author;
+  RETURN NEW;
+END;
+$$;
+
+-- System notes go to the conversation they're about
+CREATE OR REPLACE FUNCTION public.post_pin_note()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  pinned RECORD;
+  pin_message_id UUID := CASE WHEN TG_OP = 'INSERT' THEN NEW.message_id ELSE OLD.message_id END;
+BEGIN
+  SELECT m.conversation_id, m.sender_id, m.receiver_id, m.kind, m.deleted_at
+  INTO pinned
+  FROM public.messages m
+  WHERE m.id = pin_message_id;
+
+  IF TG_OP = 'INSERT' AND (pinned.kind <> 'text' OR pinned.deleted_at IS NOT NULL) THEN
+    RAISE EXCEPTION 'This message cannot be pinned';
+  END IF;
+
+  -- No note when the pin goes away with its message, or without a user to attribute it to
+  IF NOT FOUND OR pinned.deleted_at IS NOT NULL OR auth.uid() IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM set_config('pagion.system_message', 'on', true);
+  INSERT INTO public.messages (conversation_id, sender_id, receiver_id, content, reply_to_id, kind)
+  VALUES (
+    pinned.conversation_id,
+    auth.uid(),
+    CASE
+      WHEN pinned.receiver_id IS NULL THEN NULL
+      WHEN pinned.sender_id = auth.uid() THEN pinned.receiver_id
+      ELSE pinned.sender_id
+    END,
+    '',
+    pin_message_id,
+    CASE WHEN TG_OP = 'INSERT' THEN 'pin' ELSE 'unpin' END
+  );
+  PERFORM set_config('pagion.system_message', 'off', true);
+
+  RETURN NULL;
+END;
+$$;
+
+-- The disappearing-messages timer now lives on the conversation
+CREATE OR REPLACE FUNCTION public.set_message_expiry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.expires_at := OLD.expires_at;
+    RETURN NEW;
+  END IF;
+
+  NEW.expires_at := NULL;
+  IF NEW.kind = 'text' THEN
+    SELECT NEW.created_at + make_interval(secs => c.message_ttl_seconds)
+    INTO NEW.expires_at
+    FROM public.conversations c
+    WHERE c.id = NEW.conversation_id
+      AND c.message_ttl_seconds IS NOT NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.post_timer_note()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.message_ttl_seconds IS NOT DISTINCT FROM OLD.message_ttl_seconds OR auth.uid() IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  PERFORM set_config('pagion.system_message', 'on', true);
+  INSERT INTO public.messages (conversation_id, sender_id, receiver_id, content, kind)
+  VALUES (
+    NEW.id,
+    auth.uid(),
+    CASE WHEN NEW.type = 'direct' THEN CASE WHEN NEW.user_low = auth.uid() THEN NEW.user_high ELSE NEW.user_low END END,
+    COALESCE(NEW.message_ttl_seconds, 0)::TEXT,
+    'timer'
+  );
+  PERFORM set_config('pagion.system_message', 'off', true);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER post_timer_note_trigger
+  AFTER UPDATE OF message_ttl_seconds ON public.conversations
+  FOR EACH ROW EXECUTE FUNCTION public.post_timer_note();
+
+-- Any member can change the timer
+CREATE OR REPLACE FUNCTION public.set_message_ttl(p_conversation_id UUID, p_seconds INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_conversation_member(p_conversation_id) THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  UPDATE public.conversations
+  SET message_ttl_seconds = p_seconds
+  WHERE id = p_conversation_id;
+END;
+$$;
+
+-- Scheduled messages name their conversation too
+ALTER TABLE public.scheduled_messages ADD COLUMN conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE;
+
+UPDATE public.scheduled_messages
+SET conversation_id = public.ensure_direct_conversation(sender_id, receiver_id);
+
+ALTER TABLE public.scheduled_messages
+  ALTER COLUMN conversation_id SET NOT NULL,
+  ALTER COLUMN receiver_id DROP NOT NULL;
+
+DROP POLICY "Users can schedule messages" ON public.scheduled_messages;
+CREATE POLICY "Members can schedule messages" ON public.scheduled_messages FOR INSERT TO authenticated WITH CHECK (auth.uid() = sender_id AND public.is_conversation_member(conversation_id));
+
+CREATE OR REPLACE FUNCTION public.validate_scheduled_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.content IS NULL OR length(trim(NEW.content)) = 0 THEN
+    RAISE EXCEPTION 'Message content cannot be empty';
+  END IF;
+
+  IF length(NEW.content) > 10000 THEN
+    RAISE EXCEPTION 'Message content exceeds maximum length of 10000 characters';
+  END IF;
+
+  IF (TG_OP = 'INSERT' OR NEW.send_at IS DISTINCT FROM OLD.send_at) AND NEW.send_at <= now() THEN
+    RAISE EXCEPTION 'Scheduled time must be in the future';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND (NEW.sender_id, NEW.receiver_id, NEW.conversation_id) IS DISTINCT FROM (OLD.sender_id, OLD.receiver_id, OLD.conversation_id) THEN
+    RAISE EXCEPTION 'The recipient of a scheduled message cannot be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.dispatch_scheduled_messages()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  due RECORD;
+  dispatched INTEGER := 0;
+BEGIN
+  FOR due IN
+    WITH claimed AS (
+      DELETE FROM public.scheduled_messages
+      WHERE id IN (
+        SELECT id FROM public.scheduled_messages
+        WHERE send_at <= now()
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id, conversation_id, sender_id, receiver_id, content, reply_to_id, send_at, created_at
+    )
+    SELECT * FROM claimed ORDER BY send_at, created_at
+  LOOP
+    -- Senders who have left a group by the time a message is due don't get to post it
+    CONTINUE WHEN due.receiver_id IS NULL AND NOT EXISTS (
+      SELECT 1 FROM public.conversation_members
+      WHERE conversation_id = due.conversation_id AND user_id = due.sender_id
+    );
+
+    -- One row at a time with the wall clock, so messages due together keep their order
+    INSERT INTO public.messages (id, conversation_id, sender_id, receiver_id, content, reply_to_id, created_at)
+    VALUES (due.id, due.conversation_id, due.sender_id, due.receiver_id, due.content, due.reply_to_id, clock_timestamp())
+    ON CONFLICT (id) DO NOTHING;
+    dispatched := dispatched + 1;
+  END LOOP;
+
+  RETURN dispatched;
+END;
+$$;
+
+-- New groups show up for their members without a reload
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_members;
+
+-- Read functions take a conversation instead of a contact
+DROP FUNCTION IF EXISTS public.get_conversation_pins(UUID);
+DROP FUNCTION IF EXISTS public.get_starred_messages();
+DROP FUNCTION IF EXISTS public.get_conversation_page(UUID, TIMESTAMP WITH TIME ZONE, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_conversation_pins(p_conversation_id UUID)
+RETURNS TABLE(
+  message_id UUID,
+  pinned_by UUID,
+  pinned_at TIMESTAMP WITH TIME ZONE,
+  sender_id UUID,
+  content TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT p.message_id, p.pinned_by, p.created_at, m.sender_id, m.content, m.created_at
+  FROM public.pinned_messages p
+  JOIN public.messages m ON m.id = p.message_id
+  WHERE m.conversation_id = p_conversation_id
+    AND m.deleted_at IS NULL
+    AND (m.expires_at IS NULL OR m.expires_at > now())
+  ORDER BY p.created_at DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_starred_messages()
+RETURNS TABLE(
+  message_id UUID,
+  conversation_id UUID,
+  conversation_type TEXT,
+  conversation_title TEXT,
+  contact_user_id UUID,
+  sender_id UUID,
+  content TEXT,
+  forwarded_from_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  starred_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    m.id,
+    c.id,
+    c.type,
+    c.title,
+    -- The other participant of a direct conversation
+    CASE WHEN c.type = 'direct' THEN CASE WHEN c.user_low = auth.uid() THEN c.user_high ELSE c.user_low END END,
+    m.sender_id,
+    m.content,
+    m.forwarded_from_name,
+    m.created_at,
+    s.created_at
+  FROM public.starred_messages s
+  JOIN public.messages m ON m.id = s.message_id
+  JOIN public.conversations c ON c.id = m.conversation_id
+  WHERE s.user_id = auth.uid()
+    AND m.deleted_at IS NULL
+    AND (m.expires_at IS NULL OR m.expires_at > now())
+    AND NOT EXISTS (
+      SELECT 1 FROM public.hidden_messages h
+      WHERE h.message_id = m.id AND h.user_id = auth.uid()
+    )
+  ORDER BY s.created_at DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_conversation_page(
+  p_conversation_id UUID,
+  p_before_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_before_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE(
+  id UUID,
+  sender_id UUID,
+  receiver_id UUID,
+  content TEXT,
+  kind TEXT,
+  reply_to_id UUID,
+  is_edited BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  forwarded_from_name TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  reply_to_content TEXT,
+  reply_to_sender_id UUID,
+  reply_to_sender_name TEXT,
+  reply_to_deleted BOOLEAN,
+  reactions JSONB,
+  is_starred BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.id,
+    m.sender_id,
+    m.receiver_id,
+    m.content,
+    m.kind,
+    m.reply_to_id,
+    m.is_edited,
+    m.created_at,
+    m.updated_at,
+    m.delivered_at,
+    m.read_at,
+    m.deleted_at,
+    m.forwarded_from_name,
+    m.expires_at,
+    r.content,
+    r.sender_id,
+    rp.name,
+    (m.reply_to_id IS NOT NULL AND (r.id IS NULL OR r.deleted_at IS NOT NULL OR r.expires_at <= now())),
+    COALESCE(
+      (
+        SELECT jsonb_agg(jsonb_build_object('id', mr.id, 'user_id', mr.user_id, 'emoji', mr.emoji) ORDER BY mr.created_at)
+        FROM public.message_reactions mr
+        WHERE mr.message_id = m.id
+      ),
+      '[]'::jsonb
+    ),
+    EXISTS (
+      SELECT 1 FROM public.starred_messages s
+      WHERE s.message_id = m.id AND s.user_id = auth.uid()
+    )
+  FROM public.messages m
+  LEFT JOIN public.messages r ON r.id = m.reply_to_id
+  LEFT JOIN public.profiles rp ON rp.user_id = r.sender_id
+  WHERE m.conversation_id = p_conversation_id
+    AND (m.expires_at IS NULL OR m.expires_at > now())
+    AND NOT EXISTS (
+      SELECT 1 FROM public.hidden_messages h
+      WHERE h.message_id = m.id AND h.user_id = auth.uid()
+    )
+    AND (
+      p_before_created_at IS NULL
+      OR (m.created_at, m.id) < (p_before_created_at, p_before_id)
+    )
+  ORDER BY m.created_at DESC, m.id DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 200);
+END;
+$$;
@@ -0,0 +1,264 @@
+-- Broadcast channels: owners and admins post, everyone else subscribes and reads.
+-- Anyone with a channel's join code can subscribe.
+ALTER TABLE public.conversations DROP CONSTRAINT conversations_type_check;
+ALTER TABLE public.conversations ADD CONSTRAINT conversations_type_check CHECK (type IN ('direct', 'group', 'channel'));
+
+ALTER TABLE public.conversations ADD COLUMN join_code TEXT UNIQUE;
+ALTER TABLE public.conversations ADD CONSTRAINT conversations_join_code_check CHECK ((type = 'channel') = (join_code IS NOT NULL));
+
+ALTER TABLE public.conversation_members DROP CONSTRAINT conversation_members_role_check;
+ALTER TABLE public.conversation_members ADD CONSTRAINT conversation_members_role_check CHECK (role IN ('owner', 'admin', 'member', 'subscriber'));
+
+-- Everyone can post in direct conversations and groups; only owners and admins in channels
+CREATE OR REPLACE FUNCTION public.can_post_to_conversation(p_conversation_id UUID, p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.conversation_members cm
+    JOIN public.conversations c ON c.id = cm.conversation_id
+    WHERE cm.conversation_id = p_conversation_id
+      AND cm.user_id = p_user_id
+      AND (c.type <> 'channel' OR cm.role IN ('owner', 'admin'))
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.can_post_about_message(p_message_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.messages m
+    WHERE m.id = p_message_id
+      AND public.can_post_to_conversation(m.conversation_id, auth.uid())
+  );
+$$;
+
+DROP POLICY "Members can send messages" ON public.messages;
+CREATE POLICY "Members can send messages" ON public.messages FOR INSERT TO authenticated WITH CHECK (auth.uid() = sender_id AND (receiver_id IS NOT NULL OR public.can_post_to_conversation(conversation_id, auth.uid())));
+
+DROP POLICY "Members can schedule messages" ON public.scheduled_messages;
+CREATE POLICY "Members can schedule messages" ON public.scheduled_messages FOR INSERT TO authenticated WITH CHECK (auth.uid() = sender_id AND public.can_post_to_conversation(conversation_id, auth.uid()));
+
+-- Pinning posts a note to everyone, so it takes the same right as posting
+DROP POLICY "Participants can pin messages" ON public.pinned_messages;
+DROP POLICY "Participants can unpin messages" ON public.pinned_messages;
+CREATE POLICY "Participants can pin messages" ON public.pinned_messages FOR INSERT TO authenticated WITH CHECK (auth.uid() = pinned_by AND public.can_post_about_message(message_id));
+CREATE POLICY "Participants can unpin messages" ON public.pinned_messages FOR DELETE TO authenticated USING (public.can_post_about_message(message_id));
+
+-- Subscribers don't see each other; owners and admins see everyone in their channel
+DROP POLICY "Members can view members" ON public.conversation_members;
+CREATE POLICY "Members can view members" ON public.conversation_members FOR SELECT TO authenticated USING (
+  public.is_conversation_member(conversation_id)
+  AND (role <> 'subscriber' OR user_id = auth.uid() OR public.can_post_to_conversation(conversation_id, auth.uid()))
+);
+
+-- Profiles of people the user can see in a shared conversation, not only their contacts
+CREATE OR REPLACE FUNCTION public.shares_conversation_with(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.conversation_members mine
+    JOIN public.conversation_members theirs ON theirs.conversation_id = mine.conversation_id
+    WHERE mine.user_id = auth.uid()
+      AND theirs.user_id = p_user_id
+      AND (theirs.role <> 'subscriber' OR public.can_post_to_conversation(mine.conversation_id, auth.uid()))
+  );
+$$;
+
+DROP POLICY "Users can view own and contact profiles" ON public.profiles;
+CREATE POLICY "Users can view own and contact profiles"
+  ON public.profiles FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = user_id OR
+    user_id IN (
+      SELECT contact_user_id FROM public.contacts
+      WHERE contacts.user_id = auth.uid()
+    ) OR
+    public.shares_conversation_with(user_id)
+  );
+
+-- The timer posts a note too
+CREATE OR REPLACE FUNCTION public.set_message_ttl(p_conversation_id UUID, p_seconds INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_conversation_member(p_conversation_id) THEN
+    RAISE EXCEPTION 'Conversation not found';
+  END IF;
+
+  IF NOT public.can_post_to_conversation(p_conversation_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Only channel owners and admins can change this';
+  END IF;
+
+  UPDATE public.conversations
+  SET message_ttl_seconds = p_seconds
+  WHERE id = p_conversation_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.dispatch_scheduled_messages()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  due RECORD;
+  dispatched INTEGER := 0;
+BEGIN
+  FOR due IN
+    WITH claimed AS (
+      DELETE FROM public.scheduled_messages
+      WHERE id IN (
+        SELECT id FROM public.scheduled_messages
+        WHERE send_at <= now()
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id, conversation_id, sender_id, receiver_id, content, reply_to_id, send_at, created_at
+    )
+    SELECT * FROM claimed ORDER BY send_at, created_at
+  LOOP
+    -- Senders who have left a group or lost posting rights by the time a message is due don't get to post it
+    CONTINUE WHEN due.receiver_id IS NULL
+      AND NOT public.can_post_to_conversation(due.conversation_id, due.sender_id);
+
+    -- One row at a time with the wall clock, so messages due together keep their order
+    INSERT INTO public.messages (id, conversation_id, sender_id, receiver_id, content, reply_to_id, created_at)
+    VALUES (due.id, due.conversation_id, due.sender_id, due.receiver_id, due.content, due.reply_to_id, clock_timestamp())
+    ON CONFLICT (id) DO NOTHING;
+    dispatched := dispatched + 1;
+  END LOOP;
+
+  RETURN dispatched;
+END;
+$$;
+
+-- Creates a channel owned by the caller with a fresh join code
+CREATE OR REPLACE FUNCTION public.create_channel(p_title TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  conversation UUID;
+  max_attempts INTEGER := 10;
+  attempt INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  LOOP
+    BEGIN
+      INSERT INTO public.conversations (type, title, join_code, created_by)
+      VALUES (
+        'channel',
+        trim(p_title),
+        substring(md5(gen_random_uuid()::text || clock_timestamp()::text || random()::text), 1, 8),
+        auth.uid()
+      )
+      RETURNING id INTO conversation;
+
+      EXIT;
+    EXCEPTION WHEN unique_violation THEN
+      attempt := attempt + 1;
+      IF attempt >= max_attempts THEN
+        RAISE EXCEPTION 'Failed to generate unique join code after % attempts', max_attempts;
+      END IF;
+    END;
+  END LOOP;
+
+  INSERT INTO public.conversation_members (conversation_id, user_id, role)
+  VALUES (conversation, auth.uid(), 'owner');
+
+  RETURN conversation;
+END;
+$$;
+
+-- Minimal channel details for a join code, shown before subscribing
+CREATE OR REPLACE FUNCTION public.lookup_channel_by_code(p_code TEXT)
+RETURNS TABLE(id UUID, title TEXT, subscriber_count INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_code IS NULL OR length(p_code) != 8 THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT c.id, c.title, (
+    SELECT count(*)::INTEGER FROM public.conversation_members cm
+    WHERE cm.conversation_id = c.id AND cm.role = 'subscriber'
+  )
+  FROM public.conversations c
+  WHERE c.type = 'channel' AND c.join_code = p_code
+  LIMIT 1;
+END;
+$$;
+
+-- Subscribes the caller; joining a channel they're already in changes nothing
+CREATE OR REPLACE FUNCTION public.join_channel(p_code TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  conversation UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id INTO conversation
+  FROM public.conversations
+  WHERE type = 'channel' AND join_code = p_code;
+
+  IF conversation IS NULL THEN
+    RAISE EXCEPTION 'Channel not found';
+  END IF;
+
+  INSERT INTO public.conversation_members (conversation_id, user_id, role)
+  VALUES (conversation, auth.uid(), 'subscriber')
+  ON CONFLICT DO NOTHING;
+
+  RETURN conversation;
+END;
+$$;
+
+-- Subscribers can't see each other, so counts come from here
+CREATE OR REPLACE FUNCTION public.get_subscriber_counts()
+RETURNS TABLE(conversation_id UUID, subscriber_count INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT cm.conversation_id, count(*)::INTEGER
+  FROM public.conversation_members cm
+  JOIN public.conversations c ON c.id = cm.conversation_id
+  WHERE c.type = 'channel'
+    AND cm.role = 'subscriber'
+    AND public.is_conversation_member(cm.conversation_id)
+  GROUP BY cm.conversation_id;
+$$;
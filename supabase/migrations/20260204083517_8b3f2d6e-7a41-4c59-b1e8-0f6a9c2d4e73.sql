@@ -0,0 +1,51 @@
+-- The latest message of each of the caller's conversations for the conversation list,
+-- so the client never has to fetch whole histories to order and preview them.
+-- System notes don't count as activity; hidden and expired messages are skipped.
+CREATE OR REPLACE FUNCTION public.get_conversation_previews()
+RETURNS TABLE(
+  conversation_id UUID,
+  contact_user_id UUID,
+  message_id UUID,
+  sender_id UUID,
+  content TEXT,
+  deleted BOOLEAN,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  last_activity_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    -- The other participant of a direct conversation
+    CASE WHEN c.type = 'direct' THEN CASE WHEN c.user_low = auth.uid() THEN c.user_high ELSE c.user_low END END,
+    last.id,
+    last.sender_id,
+    -- A snippet is all the list shows
+    CASE WHEN last.deleted_at IS NULL THEN left(last.content, 200) ELSE '' END,
+    last.deleted_at IS NOT NULL,
+    last.expires_at,
+    -- Conversations without messages count from when the user joined them
+    COALESCE(last.created_at, cm.joined_at)
+  FROM public.conversation_members cm
+  JOIN public.conversations c ON c.id = cm.conversation_id
+  LEFT JOIN LATERAL (
+    SELECT m.id, m.sender_id, m.content, m.deleted_at, m.expires_at, m.created_at
+    FROM public.messages m
+    WHERE m.conversation_id = c.id
+      AND m.kind = 'text'
+      AND (m.expires_at IS NULL OR m.expires_at > now())
+      AND NOT EXISTS (
+        SELECT 1 FROM public.hidden_messages h
+        WHERE h.message_id = m.id AND h.user_id = auth.uid()
+      )
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT 1
+  ) last ON true
+  WHERE cm.user_id = auth.uid();
+$$;
+
+-- Hiding the latest message changes the caller's preview
+ALTER PUBLICATION supabase_realtime ADD TABLE public.hidden_messages;
@@ -0,0 +1,108 @@
+-- How far each user has read in each conversation, shared by all their devices.
+-- Kept apart from conversation_members so other members can't see it.
+CREATE TABLE public.conversation_reads (
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  last_read_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+ALTER TABLE public.conversation_reads ENABLE ROW LEVEL SECURITY;
+
+-- Written only through mark_conversation_read
+CREATE POLICY "Users can view own read positions" ON public.conversation_reads FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+-- Existing history counts as read rather than flooding everyone with badges
+INSERT INTO public.conversation_reads (conversation_id, user_id, last_read_at)
+SELECT conversation_id, user_id, now() FROM public.conversation_members;
+
+-- Moves the caller's read position forward to p_up_to; it never moves back
+CREATE OR REPLACE FUNCTION public.mark_conversation_read(p_conversation_id UUID, p_up_to TIMESTAMP WITH TIME ZONE)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_conversation_member(p_conversation_id) THEN
+    RAISE EXCEPTION 'Not a member of this conversation';
+  END IF;
+
+  INSERT INTO public.conversation_reads (conversation_id, user_id, last_read_at)
+  VALUES (p_conversation_id, auth.uid(), LEAST(p_up_to, now()))
+  ON CONFLICT (conversation_id, user_id) DO UPDATE
+  SET last_read_at = EXCLUDED.last_read_at
+  WHERE conversation_reads.last_read_at < EXCLUDED.last_read_at;
+END;
+$$;
+
+-- Previews now carry the read position and how many messages from others came after it
+DROP FUNCTION IF EXISTS public.get_conversation_previews();
+
+CREATE OR REPLACE FUNCTION public.get_conversation_previews()
+RETURNS TABLE(
+  conversation_id UUID,
+  contact_user_id UUID,
+  message_id UUID,
+  sender_id UUID,
+  content TEXT,
+  deleted BOOLEAN,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  last_activity_at TIMESTAMP WITH TIME ZONE,
+  last_read_at TIMESTAMP WITH TIME ZONE,
+  unread_count INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    c.id,
+    -- The other participant of a direct conversation
+    CASE WHEN c.type = 'direct' THEN CASE WHEN c.user_low = auth.uid() THEN c.user_high ELSE c.user_low END END,
+    last.id,
+    last.sender_id,
+    -- A snippet is all the list shows
+    CASE WHEN last.deleted_at IS NULL THEN left(last.content, 200) ELSE '' END,
+    last.deleted_at IS NOT NULL,
+    last.expires_at,
+    -- Conversations without messages count from when the user joined them
+    COALESCE(last.created_at, cm.joined_at),
+    r.last_read_at,
+    -- Without a read position, e.g. in a conversation just joined, everything is unread
+    (
+      SELECT count(*)::INTEGER
+      FROM public.messages m
+      WHERE m.conversation_id = c.id
+        AND m.kind = 'text'
+        AND m.sender_id <> auth.uid()
+        AND m.deleted_at IS NULL
+        AND m.created_at > COALESCE(r.last_read_at, '-infinity')
+        AND (m.expires_at IS NULL OR m.expires_at > now())
+        AND NOT EXISTS (
+          SELECT 1 FROM public.hidden_messages h
+          WHERE h.message_id = m.id AND h.user_id = auth.uid()
+        )
+    )
+  FROM public.conversation_members cm
+  JOIN public.conversations c ON c.id = cm.conversation_id
+  LEFT JOIN public.conversation_reads r ON r.conversation_id = c.id AND r.user_id = auth.uid()
+  LEFT JOIN LATERAL (
+    SELECT m.id, m.sender_id, m.content, m.deleted_at, m.expires_at, m.created_at
+    FROM public.messages m
+    WHERE m.conversation_id = c.id
+      AND m.kind = 'text'
+      AND (m.expires_at IS NULL OR m.expires_at > now())
+      AND NOT EXISTS (
+        SELECT 1 FROM public.hidden_messages h
+        WHERE h.message_id = m.id AND h.user_id = auth.uid()
+      )
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT 1
+  ) last ON true
+  WHERE cm.user_id = auth.uid();
+$$;
+
+-- Reading on one device clears the badges on the others
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_reads;
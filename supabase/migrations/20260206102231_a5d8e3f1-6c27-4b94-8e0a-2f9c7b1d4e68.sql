@@ -0,0 +1,65 @@
+-- Each user's own arrangement of their conversation list: pinned, muted and archived
+CREATE TABLE public.conversation_states (
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  pinned_at TIMESTAMP WITH TIME ZONE,
+  muted BOOLEAN NOT NULL DEFAULT false,
+  -- Null while muted means until the user unmutes
+  muted_until TIMESTAMP WITH TIME ZONE,
+  archived_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (conversation_id, user_id)
+);
+
+ALTER TABLE public.conversation_states ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own conversation states" ON public.conversation_states FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Members can create own conversation states" ON public.conversation_states FOR INSERT TO authenticated WITH CHECK (auth.uid() = user_id AND public.is_conversation_member(conversation_id));
+CREATE POLICY "Users can change own conversation states" ON public.conversation_states FOR UPDATE TO authenticated USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_conversation_states_updated_at BEFORE UPDATE ON public.conversation_states FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Keep the pinned list short; the client checks first, this is the backstop
+CREATE OR REPLACE FUNCTION public.enforce_pinned_limit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.pinned_at IS NOT NULL
+    AND (TG_OP = 'INSERT' OR OLD.pinned_at IS NULL)
+    AND (
+      SELECT count(*) FROM public.conversation_states
+      WHERE user_id = NEW.user_id
+        AND pinned_at IS NOT NULL
+        AND conversation_id <> NEW.conversation_id
+    ) >= 5
+  THEN
+    RAISE EXCEPTION 'At most 5 conversations can be pinned';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_pinned_limit BEFORE INSERT OR UPDATE ON public.conversation_states FOR EACH ROW EXECUTE FUNCTION public.enforce_pinned_limit();
+
+-- A new message brings an archived conversation back, unless the user muted it
+CREATE OR REPLACE FUNCTION public.unarchive_on_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.conversation_states
+  SET archived_at = NULL
+  WHERE conversation_id = NEW.conversation_id
+    AND archived_at IS NOT NULL
+    AND NOT (muted AND (muted_until IS NULL OR muted_until > now()));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER unarchive_on_message AFTER INSERT ON public.messages FOR EACH ROW WHEN (NEW.kind = 'text') EXECUTE FUNCTION public.unarchive_on_message();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_states;
@@ -0,0 +1,31 @@
+-- Owners promote subscribers to admins, who can post, and demote them again
+CREATE OR REPLACE FUNCTION public.set_channel_admin(p_conversation_id UUID, p_user_id UUID, p_admin BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM public.conversation_members cm
+    JOIN public.conversations c ON c.id = cm.conversation_id
+    WHERE cm.conversation_id = p_conversation_id
+      AND cm.user_id = auth.uid()
+      AND cm.role = 'owner'
+      AND c.type = 'channel'
+  ) THEN
+    RAISE EXCEPTION 'Only the channel owner can change admins';
+  END IF;
+
+  UPDATE public.conversation_members
+  SET role = CASE WHEN p_admin THEN 'admin' ELSE 'subscriber' END
+  WHERE conversation_id = p_conversation_id
+    AND user_id = p_user_id
+    AND role IN ('admin', 'subscriber');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not a subscriber or admin of this channel';
+  END IF;
+END;
+$$;
@@ -0,0 +1,39 @@
+-- Online status goes over realtime presence on a private channel per user,
+-- topic 'presence:<user id>'. Only the user can track themselves in it.
+CREATE POLICY "Users can track own presence" ON realtime.messages FOR INSERT TO authenticated
+WITH CHECK (
+  realtime.messages.extension = 'presence'
+  AND realtime.topic() = 'presence:' || auth.uid()::text
+);
+
+-- Whether the caller may see a user's online status: the same rules as get_last_seen
+CREATE OR REPLACE FUNCTION public.can_see_presence_of(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_user_id = auth.uid() OR (
+    EXISTS (
+      SELECT 1 FROM public.profiles p
+      WHERE p.user_id = p_user_id AND p.presence_visibility = 'everyone'
+    )
+    AND EXISTS (
+      SELECT 1 FROM public.contacts c
+      WHERE c.user_id = auth.uid() AND c.contact_user_id = p_user_id
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM public.contacts h
+      WHERE h.user_id = p_user_id AND h.contact_user_id = auth.uid() AND h.hide_presence
+    )
+  );
+$$;
+
+-- Contacts can follow it unless the user hides their presence from them
+CREATE POLICY "Contacts can follow presence" ON realtime.messages FOR SELECT TO authenticated
+USING (
+  realtime.messages.extension = 'presence'
+  AND realtime.topic() LIKE 'presence:%'
+  AND public.can_see_presence_of(NULLIF(substring(realtime.topic() FROM 10), '')::UUID)
+);
@@ -0,0 +1,37 @@
+-- Typing indicators are broadcast into a private realtime inbox per user,
+-- topic 'typing:<user id>'. Only the owner can listen to their inbox.
+CREATE POLICY "Users can listen to own typing inbox" ON realtime.messages FOR SELECT TO authenticated
+USING (
+  realtime.messages.extension = 'broadcast'
+  AND realtime.topic() = 'typing:' || auth.uid()::text
+);
+
+-- Whether the caller may show as typing to a user: they must share a direct
+-- conversation, or the user must have added the caller as a contact
+CREATE OR REPLACE FUNCTION public.can_send_typing_to(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_user_id <> auth.uid() AND (
+    EXISTS (
+      SELECT 1 FROM public.contacts
+      WHERE user_id = p_user_id AND contact_user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.conversations
+      WHERE type = 'direct'
+        AND user_low = LEAST(p_user_id, auth.uid())
+        AND user_high = GREATEST(p_user_id, auth.uid())
+    )
+  );
+$$;
+
+CREATE POLICY "Users can send typing to their contacts" ON realtime.messages FOR INSERT TO authenticated
+WITH CHECK (
+  realtime.messages.extension = 'broadcast'
+  AND realtime.topic() LIKE 'typing:%'
+  AND public.can_send_typing_to(NULLIF(substring(realtime.topic() FROM 8), '')::UUID)
+);
@@ -0,0 +1,55 @@
+-- New members start out having read everything sent before they joined. A
+-- direct conversation is created in the same transaction as its first
+-- message, which shares the join timestamp and must still count as unread.
+CREATE OR REPLACE FUNCTION public.start_read_position()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.conversation_reads (conversation_id, user_id, last_read_at)
+  VALUES (NEW.conversation_id, NEW.user_id, NEW.joined_at - interval '1 microsecond')
+  ON CONFLICT (conversation_id, user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER start_read_position AFTER INSERT ON public.conversation_members FOR EACH ROW EXECUTE FUNCTION public.start_read_position();
+
+-- Members who joined since read positions were introduced and haven't read anything yet
+INSERT INTO public.conversation_reads (conversation_id, user_id, last_read_at)
+SELECT conversation_id, user_id, joined_at - interval '1 microsecond' FROM public.conversation_members
+ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+-- The caller's read position in a conversation and the first message after
+-- it, counted the same way as unread_count, however far back that is
+CREATE OR REPLACE FUNCTION public.get_read_position(p_conversation_id UUID)
+RETURNS TABLE(last_read_at TIMESTAMP WITH TIME ZONE, first_unread_id UUID)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    r.last_read_at,
+    (
+      SELECT m.id
+      FROM public.messages m
+      WHERE m.conversation_id = p_conversation_id
+        AND m.kind = 'text'
+        AND m.sender_id <> auth.uid()
+        AND m.deleted_at IS NULL
+        AND m.created_at > COALESCE(r.last_read_at, '-infinity')
+        AND (m.expires_at IS NULL OR m.expires_at > now())
+        AND NOT EXISTS (
+          SELECT 1 FROM public.hidden_messages h
+          WHERE h.message_id = m.id AND h.user_id = auth.uid()
+        )
+      ORDER BY m.created_at, m.id
+      LIMIT 1
+    )
+  FROM public.conversation_members cm
+  LEFT JOIN public.conversation_reads r ON r.conversation_id = cm.conversation_id AND r.user_id = cm.user_id
+  WHERE cm.conversation_id = p_conversation_id AND cm.user_id = auth.uid();
+$$;
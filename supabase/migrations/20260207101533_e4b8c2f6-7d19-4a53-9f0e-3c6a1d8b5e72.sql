@@ -0,0 +1,6 @@
+-- Scheduled messages always go out in the future; the client checks first, this is the backstop
+DROP POLICY "Members can schedule messages" ON public.scheduled_messages;
+CREATE POLICY "Members can schedule messages" ON public.scheduled_messages FOR INSERT TO authenticated WITH CHECK (auth.uid() = sender_id AND public.can_post_to_conversation(conversation_id, auth.uid()) AND send_at > now());
+
+DROP POLICY "Users can edit own scheduled messages" ON public.scheduled_messages;
+CREATE POLICY "Users can edit own scheduled messages" ON public.scheduled_messages FOR UPDATE TO authenticated USING (auth.uid() = sender_id) WITH CHECK (auth.uid() = sender_id AND send_at > now());
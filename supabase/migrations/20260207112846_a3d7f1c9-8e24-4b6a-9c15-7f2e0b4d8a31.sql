@@ -0,0 +1,39 @@
+-- Count only messages that were actually posted, not ones skipped or already sent
+CREATE OR REPLACE FUNCTION public.dispatch_scheduled_messages()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  due RECORD;
+  dispatched INTEGER := 0;
+BEGIN
+  FOR due IN
+    WITH claimed AS (
+      DELETE FROM public.scheduled_messages
+      WHERE id IN (
+        SELECT id FROM public.scheduled_messages
+        WHERE send_at <= now()
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id, conversation_id, sender_id, receiver_id, content, reply_to_id, send_at, created_at
+    )
+    SELECT * FROM claimed ORDER BY send_at, created_at
+  LOOP
+    -- Senders who have left a group or lost posting rights by the time a message is due don't get to post it
+    CONTINUE WHEN due.receiver_id IS NULL
+      AND NOT public.can_post_to_conversation(due.conversation_id, due.sender_id);
+
+    -- One row at a time with the wall clock, so messages due together keep their order
+    INSERT INTO public.messages (id, conversation_id, sender_id, receiver_id, content, reply_to_id, created_at)
+    VALUES (due.id, due.conversation_id, due.sender_id, due.receiver_id, due.content, due.reply_to_id, clock_timestamp())
+    ON CONFLICT (id) DO NOTHING;
+    IF FOUND THEN
+      dispatched := dispatched + 1;
+    END IF;
+  END LOOP;
+
+  RETURN dispatched;
+END;
+$$;
@@ -0,0 +1,3 @@
+-- Editing and deleting for everyone take the same rights as posting, so former group members and demoted channel admins can't rewrite what they sent
+DROP POLICY "Users can edit own messages" ON public.messages;
+CREATE POLICY "Users can edit own messages" ON public.messages FOR UPDATE TO authenticated USING (auth.uid() = sender_id AND (receiver_id IS NOT NULL OR public.can_post_to_conversation(conversation_id, auth.uid()))) WITH CHECK (auth.uid() = sender_id AND (receiver_id IS NOT NULL OR public.can_post_to_conversation(conversation_id, auth.uid())));